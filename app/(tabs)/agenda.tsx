@@ -0,0 +1,258 @@
+import { formatDateString, parseDateString } from '@/database/database';
+import { addDays } from '@/database/schedule';
+import { useAgenda } from '@/hooks/use-habits';
+import { useFocusEffect, useRouter } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+const RANGES = [14, 30, 60];
+
+export default function AgendaScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const today = formatDateString(new Date());
+  const [days, setDays] = useState(14);
+  const { agenda, refresh } = useAgenda(days);
+
+  // Completions or schedules may have changed elsewhere
+  useFocusEffect(
+    useCallback(() => {
+      refresh();
+    }, [refresh])
+  );
+
+  // Bars are scaled to the busiest day so overloaded days stand out
+  const busiestCount = Math.max(0, ...agenda.map((day) => day.items.length));
+  const totalCount = agenda.reduce((sum, day) => sum + day.items.length, 0);
+
+  const formatDayTitle = (date: string) => {
+    if (date === today) return 'Today';
+    if (date === addDays(today, 1)) return 'Tomorrow';
+    return parseDateString(date).toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' });
+  };
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <ScrollView contentContainerStyle={[styles.scrollContent, { paddingBottom: insets.bottom + 40 }]}>
+        {/* Header */}
+        <View style={styles.header}>
+          <Text style={styles.headerLogo}>upcoming</Text>
+          <TouchableOpacity style={styles.todayLink} onPress={() => router.navigate('/')} activeOpacity={0.7}>
+            <Text style={styles.todayLinkText}>‹ Today</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Range Selector */}
+        <View style={styles.rangeRow}>
+          {RANGES.map((range) => (
+            <TouchableOpacity
+              key={range}
+              style={[styles.rangeChip, days === range && styles.rangeChipActive]}
+              onPress={() => setDays(range)}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.rangeChipText, days === range && styles.rangeChipTextActive]}>
+                {range} days
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.summaryText}>
+          {totalCount} {totalCount === 1 ? 'habit' : 'habits'} due over the next {days} days, up to {busiestCount} on the busiest day.
+          Weekly habits can be done on any day, so they aren&apos;t listed.
+        </Text>
+
+        {/* Days */}
+        {agenda.map((day) => {
+          const count = day.items.length;
+          const isBusiest = count > 0 && count === busiestCount;
+          return (
+            <View key={day.date} style={styles.dayCard}>
+              <TouchableOpacity
+                style={styles.dayHeader}
+                onPress={() => router.navigate(`/?date=${day.date}`)}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.dayTitle}>{formatDayTitle(day.date)}</Text>
+                <View style={[styles.countBadge, isBusiest && styles.countBadgeBusiest]}>
+                  <Text style={[styles.countText, isBusiest && styles.countTextBusiest]}>{count}</Text>
+                </View>
+              </TouchableOpacity>
+              <View style={styles.loadTrack}>
+                <View
+                  style={[
+                    styles.loadBar,
+                    { width: `${busiestCount > 0 ? (count / busiestCount) * 100 : 0}%` },
+                    isBusiest && styles.loadBarBusiest,
+                  ]}
+                />
+              </View>
+              {count === 0 ? (
+                <Text style={styles.restText}>Nothing due</Text>
+              ) : (
+                day.items.map((item) => (
+                  <TouchableOpacity
+                    key={item.habitId}
+                    style={styles.itemRow}
+                    onPress={() => router.push(`/habit/${item.habitId}`)}
+                    activeOpacity={0.7}
+                  >
+                    <View style={[styles.itemDot, item.done && styles.itemDotDone]} />
+                    <Text style={[styles.itemName, item.done && styles.itemNameDone]} numberOfLines={1}>
+                      {item.name}
+                    </Text>
+                  </TouchableOpacity>
+                ))
+              )}
+            </View>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8F9FD',
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    justifyContent: 'space-between',
+    paddingTop: 60,
+    paddingBottom: 20,
+  },
+  headerLogo: {
+    fontSize: 36,
+    fontWeight: '800',
+    color: '#8BBFB8',
+    letterSpacing: -0.5,
+  },
+  todayLink: {
+    backgroundColor: '#F0F8F7',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+  todayLinkText: {
+    fontSize: 12,
+    color: '#4F7F77',
+    fontWeight: '600',
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  rangeChip: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 12,
+    backgroundColor: '#FFF',
+    alignItems: 'center',
+  },
+  rangeChipActive: {
+    backgroundColor: '#8BBFB8',
+  },
+  rangeChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#4F7F77',
+  },
+  rangeChipTextActive: {
+    color: '#FFF',
+  },
+  summaryText: {
+    fontSize: 13,
+    color: '#888',
+    marginBottom: 16,
+  },
+  dayCard: {
+    backgroundColor: '#FFF',
+    borderRadius: 16,
+    padding: 14,
+    marginBottom: 10,
+  },
+  dayHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  dayTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  countBadge: {
+    minWidth: 28,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    backgroundColor: '#F0F8F7',
+    alignItems: 'center',
+  },
+  countBadgeBusiest: {
+    backgroundColor: '#4F7F77',
+  },
+  countText: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#4F7F77',
+  },
+  countTextBusiest: {
+    color: '#FFF',
+  },
+  loadTrack: {
+    marginTop: 8,
+    marginBottom: 4,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#EEF1F0',
+    overflow: 'hidden',
+  },
+  loadBar: {
+    height: '100%',
+    borderRadius: 2,
+    backgroundColor: '#8BBFB8',
+  },
+  loadBarBusiest: {
+    backgroundColor: '#4F7F77',
+  },
+  restText: {
+    marginTop: 4,
+    fontSize: 13,
+    color: '#BBB',
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 5,
+  },
+  itemDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    borderWidth: 1.5,
+    borderColor: '#8BBFB8',
+    marginRight: 10,
+  },
+  itemDotDone: {
+    backgroundColor: '#8BBFB8',
+  },
+  itemName: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+  },
+  itemNameDone: {
+    color: '#999',
+    textDecorationLine: 'line-through',
+  },
+});
@@ -0,0 +1,419 @@
+import { CompletionHeatmap } from '@/components/completion-heatmap';
+import { ENERGY_OPTIONS, getRatingEmoji, MOOD_OPTIONS } from '@/components/journal-card';
+import { useCompletionHeatmap, useMonthJournal, useMonthSummary } from '@/hooks/use-habits';
+import { formatDateString, getMonthCells, parseDateString } from '@/database/database';
+import { DaySummary } from '@/types/habit';
+import { useFocusEffect, useRouter } from 'expo-router';
+import React, { useCallback, useMemo, useState } from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+const WEEKDAY_LABELS = ['M', 'T', 'W', 'T', 'F', 'S', 'S'];
+
+// A day with habits on its list where every one was done (skipped ones don't count against it)
+const isPerfectDay = (day?: DaySummary) => !!day && day.total > 0 && day.completed === day.total;
+
+// Cell shading grows with the share of the day's habits that were done
+const getShade = (day: DaySummary) => {
+  const ratio = day.completed / day.total;
+  return ratio > 0 ? `rgba(139, 191, 184, ${0.2 + ratio * 0.6})` : '#EEF1F0';
+};
+
+export default function CalendarScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const today = formatDateString(new Date());
+
+  const [visibleMonth, setVisibleMonth] = useState(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), 1);
+  });
+  const { days, refresh } = useMonthSummary(visibleMonth);
+  const heatmap = useCompletionHeatmap();
+  const refreshHeatmap = heatmap.refresh;
+  const { entries: journalEntries, refresh: refreshJournal } = useMonthJournal(visibleMonth);
+
+  // Completions may have changed on the Today screen
+  useFocusEffect(
+    useCallback(() => {
+      refresh();
+      refreshHeatmap();
+      refreshJournal();
+    }, [refresh, refreshHeatmap, refreshJournal])
+  );
+
+  const cells = useMemo(
+    () => getMonthCells(visibleMonth.getFullYear(), visibleMonth.getMonth()),
+    [visibleMonth]
+  );
+  const daysByDate = useMemo(() => new Map(days.map((day) => [day.date, day])), [days]);
+  const journalByDate = useMemo(
+    () => new Map(journalEntries.map((entry) => [entry.date, entry])),
+    [journalEntries]
+  );
+  const isCurrentMonth = formatDateString(visibleMonth) === today.slice(0, 8) + '01';
+
+  // Month totals only cover days that have already happened
+  const pastDays = days.filter((day) => day.date <= today && day.total > 0);
+  const perfectDayCount = pastDays.filter(isPerfectDay).length;
+  const totalDue = pastDays.reduce((sum, day) => sum + day.total, 0);
+  const totalCompleted = pastDays.reduce((sum, day) => sum + day.completed, 0);
+  const completionRate = totalDue > 0 ? Math.round((totalCompleted / totalDue) * 100) : 0;
+
+  const shiftMonth = (delta: number) => {
+    setVisibleMonth(new Date(visibleMonth.getFullYear(), visibleMonth.getMonth() + delta, 1));
+  };
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <ScrollView contentContainerStyle={[styles.scrollContent, { paddingBottom: insets.bottom + 40 }]}>
+        {/* Header */}
+        <View style={styles.header}>
+          <Text style={styles.headerLogo}>calendar</Text>
+          <TouchableOpacity style={styles.todayLink} onPress={() => router.navigate('/')} activeOpacity={0.7}>
+            <Text style={styles.todayLinkText}>‹ Today</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.card}>
+          {/* Month Navigation */}
+          <View style={styles.monthHeader}>
+            <TouchableOpacity style={styles.monthArrow} onPress={() => shiftMonth(-1)} activeOpacity={0.7}>
+              <Text style={styles.monthArrowText}>‹</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => setVisibleMonth(parseDateString(today.slice(0, 8) + '01'))}
+              disabled={isCurrentMonth}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.monthTitle}>
+                {visibleMonth.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.monthArrow} onPress={() => shiftMonth(1)} activeOpacity={0.7}>
+              <Text style={styles.monthArrowText}>›</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.weekRow}>
+            {WEEKDAY_LABELS.map((label, index) => (
+              <Text key={index} style={styles.weekdayLabel}>
+                {label}
+              </Text>
+            ))}
+          </View>
+
+          {/* Day Grid - tap a day to open its list */}
+          <View style={styles.dayGrid}>
+            {cells.map((date, index) => {
+              if (!date) {
+                return <View key={`empty-${index}`} style={styles.dayCell} />;
+              }
+              const day = daysByDate.get(date);
+              const isPast = date <= today;
+              const isPerfect = isPast && isPerfectDay(day);
+              const journalEntry = journalByDate.get(date);
+              return (
+                <TouchableOpacity
+                  key={date}
+                  style={styles.dayCell}
+                  onPress={() => router.navigate(`/?date=${date}`)}
+                  activeOpacity={0.7}
+                >
+                  <View
+                    style={[
+                      styles.dayCircle,
+                      isPast && day && day.total > 0 && { backgroundColor: getShade(day) },
+                      isPerfect && styles.dayCirclePerfect,
+                      date === today && styles.dayCircleToday,
+                    ]}
+                  >
+                    <Text
+                      style={[
+                        styles.dayText,
+                        !isPast && styles.dayTextFuture,
+                        isPerfect && styles.dayTextPerfect,
+                      ]}
+                    >
+                      {parseDateString(date).getDate()}
+                    </Text>
+                  </View>
+                  {isPerfect && <Text style={styles.perfectMarker}>★</Text>}
+                  {journalEntry && (
+                    <Text style={styles.journalMarker}>
+                      {getRatingEmoji(MOOD_OPTIONS, journalEntry.mood) ?? '✎'}
+                    </Text>
+                  )}
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
+        {/* Month Summary */}
+        <View style={styles.summaryRow}>
+          <View style={styles.summaryBox}>
+            <Text style={styles.summaryValue}>{perfectDayCount}</Text>
+            <Text style={styles.summaryLabel}>Perfect days</Text>
+          </View>
+          <View style={styles.summaryBox}>
+            <Text style={styles.summaryValue}>{completionRate}%</Text>
+            <Text style={styles.summaryLabel}>Habits done</Text>
+          </View>
+        </View>
+
+        {/* Legend */}
+        <View style={styles.legend}>
+          <Text style={styles.legendText}>Less</Text>
+          {[0, 0.5, 1].map((ratio) => (
+            <View
+              key={ratio}
+              style={[
+                styles.legendSwatch,
+                { backgroundColor: getShade({ date: '', total: 2, completed: ratio * 2 }) },
+              ]}
+            />
+          ))}
+          <Text style={styles.legendText}>More</Text>
+          <Text style={[styles.legendText, styles.legendPerfect]}>★ Perfect day</Text>
+        </View>
+
+        {/* Month Journal - tap an entry to edit it */}
+        {journalEntries.length > 0 && (
+          <View style={[styles.card, styles.journalCard]}>
+            <Text style={styles.sectionTitle}>Journal</Text>
+            {journalEntries.map((entry) => (
+              <TouchableOpacity
+                key={entry.date}
+                style={styles.journalRow}
+                onPress={() => router.push(`/modal/journal?date=${entry.date}`)}
+                activeOpacity={0.7}
+              >
+                <View style={styles.journalRowHeader}>
+                  <Text style={styles.journalDate}>
+                    {parseDateString(entry.date).toLocaleDateString('en-US', { weekday: 'short', day: 'numeric' })}
+                  </Text>
+                  <Text style={styles.journalRatings}>
+                    {[getRatingEmoji(MOOD_OPTIONS, entry.mood), getRatingEmoji(ENERGY_OPTIONS, entry.energy)]
+                      .filter(Boolean)
+                      .join(' ')}
+                  </Text>
+                </View>
+                {!!entry.text && (
+                  <Text style={styles.journalText} numberOfLines={2}>
+                    {entry.text}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        {/* Year Heatmap */}
+        <View style={[styles.card, styles.heatmapCard]}>
+          <Text style={styles.sectionTitle}>Last 12 months</Text>
+          <CompletionHeatmap counts={heatmap.counts} fromDate={heatmap.fromDate} toDate={heatmap.toDate} />
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8F9FD',
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    justifyContent: 'space-between',
+    paddingTop: 60,
+    paddingBottom: 20,
+  },
+  headerLogo: {
+    fontSize: 36,
+    fontWeight: '800',
+    color: '#8BBFB8',
+    letterSpacing: -0.5,
+  },
+  todayLink: {
+    backgroundColor: '#F0F8F7',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+  todayLinkText: {
+    fontSize: 12,
+    color: '#4F7F77',
+    fontWeight: '600',
+  },
+  card: {
+    backgroundColor: '#FFF',
+    borderRadius: 20,
+    padding: 16,
+    shadowColor: '#8BBFB8',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.06,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  monthHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  monthArrow: {
+    width: 36,
+    height: 36,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  monthArrowText: {
+    fontSize: 24,
+    color: '#4F7F77',
+  },
+  monthTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#4F7F77',
+  },
+  weekRow: {
+    flexDirection: 'row',
+  },
+  weekdayLabel: {
+    width: '14.28%',
+    textAlign: 'center',
+    fontSize: 12,
+    color: '#999',
+    fontWeight: '500',
+    marginBottom: 6,
+  },
+  dayGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  dayCell: {
+    width: '14.28%',
+    aspectRatio: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  dayCircle: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  dayCirclePerfect: {
+    backgroundColor: '#4F7F77',
+  },
+  dayCircleToday: {
+    borderWidth: 2,
+    borderColor: '#4F7F77',
+  },
+  dayText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  dayTextFuture: {
+    color: '#BBB',
+  },
+  dayTextPerfect: {
+    color: '#FFF',
+    fontWeight: '700',
+  },
+  perfectMarker: {
+    position: 'absolute',
+    bottom: 0,
+    fontSize: 9,
+    color: '#4F7F77',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  summaryBox: {
+    flex: 1,
+    backgroundColor: '#FFF',
+    borderRadius: 16,
+    padding: 16,
+    alignItems: 'center',
+  },
+  summaryValue: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#4F7F77',
+  },
+  summaryLabel: {
+    marginTop: 4,
+    fontSize: 13,
+    color: '#888',
+  },
+  legend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 16,
+  },
+  legendSwatch: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+  },
+  legendText: {
+    fontSize: 12,
+    color: '#888',
+  },
+  legendPerfect: {
+    marginLeft: 'auto',
+    color: '#4F7F77',
+  },
+  journalMarker: {
+    position: 'absolute',
+    top: 0,
+    right: 0,
+    fontSize: 10,
+  },
+  journalCard: {
+    marginTop: 24,
+  },
+  journalRow: {
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#F0F0F0',
+  },
+  journalRowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  journalDate: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  journalRatings: {
+    fontSize: 14,
+  },
+  journalText: {
+    marginTop: 2,
+    fontSize: 13,
+    color: '#666',
+  },
+  heatmapCard: {
+    marginTop: 24,
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#4F7F77',
+    marginBottom: 12,
+  },
+});
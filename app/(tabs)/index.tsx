@@ -1,10 +1,13 @@
-import { useCustomHabits, useDailyHabits, useHabitsForDate, useHabitStats, useIntervalHabits } from '@/hooks/use-habits';
-import { clearAllData } from '@/database/habit-repository';
-import { useDatabase } from '@/context/database-context';
-import { formatDateString } from '@/database/database';
-import { useFocusEffect, useRouter } from 'expo-router';
+import { useArchivedHabits, useBooleanSetting, useHabitsForDate, useHabitStats, useJournalEntry, usePausesForDate, useIntervalHabits, useMonthlyHabits, usePlannerWeek, useRRuleHabits, useWeeklyHabits } from '@/hooks/use-habits';
+import { describeMonthlySchedule } from '@/components/modals/monthly-picker';
+import { JournalCard } from '@/components/journal-card';
+import { describeRRule, parseRRule } from '@/database/rrule';
+import { getWeekRange, getWeeklyQuotaCount } from '@/database/schedule';
+import { HabitDayState } from '@/types/habit';
+import { formatDateString, parseDateString } from '@/database/database';
+import { useFocusEffect, useLocalSearchParams, useRouter } from 'expo-router';
 import React, { useCallback, useMemo, useState } from 'react';
-import { Alert, Dimensions, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { Dimensions, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import { Gesture, GestureDetector, GestureHandlerRootView } from 'react-native-gesture-handler';
 import Animated, {
   Easing,
@@ -18,13 +21,31 @@ import { Circle, Svg } from 'react-native-svg';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
+// How long the undo snackbar stays up after a swipe
+const UNDO_DURATION_MS = 4000;
+
+// Pixels the header has to be swiped to move to another day
+const DAY_SWIPE_THRESHOLD = 60;
+
 interface Habit {
   id: string;
   name: string;
   completed: boolean;
-  weekProgress?: boolean[];
+  skipped?: boolean; // Deliberately skipped today: neither done nor missed
+  weekProgress?: HabitDayState[]; // Monday-Sunday
+  kind?: 'boolean' | 'measurable';
+  value?: number; // Amount logged today (measurable habits)
+  targetValue?: number;
+  unit?: string;
+  note?: string; // Note on the day's completion
 }
 
+// Amount added or removed per tap on a measurable habit: roughly ten taps reach the target
+const getLogStep = (targetValue: number) => Math.max(1, Math.round(targetValue / 10));
+
+const formatAmount = (habit: Habit) =>
+  `${habit.value ?? 0} / ${habit.targetValue ?? 0}${habit.unit ? ` ${habit.unit}` : ''}`;
+
 interface IntervalHabit extends Habit {
   interval: number; // every X days
   lastCompleted?: string; // ISO date string
@@ -36,7 +57,26 @@ interface DayHabits {
   [key: string]: Habit[];
 }
 
-type HabitScheduleType = 'daily' | 'custom' | 'interval';
+type HabitScheduleType = 'daily' | 'custom' | 'interval' | 'weekly' | 'monthly' | 'rrule';
+
+const SCHEDULE_TYPE_OPTIONS: { type: HabitScheduleType; label: string }[] = [
+  { type: 'daily', label: 'Daily' },
+  { type: 'custom', label: 'Custom' },
+  { type: 'interval', label: 'Interval' },
+  { type: 'weekly', label: 'Weekly' },
+  { type: 'monthly', label: 'Monthly' },
+  { type: 'rrule', label: 'Rule' },
+];
+
+// Human-readable RRULE summary for the planner, falling back to the raw text if it no longer parses
+const describeStoredRRule = (rrule?: string) => {
+  if (!rrule) return '';
+  try {
+    return describeRRule(parseRRule(rrule));
+  } catch {
+    return rrule;
+  }
+};
 
 const CompletedSection = ({ habits, isExpanded, onToggle, renderHabitItem }: {
   habits: Habit[];
@@ -131,7 +171,8 @@ const CompletedSection = ({ habits, isExpanded, onToggle, renderHabitItem }: {
         activeOpacity={0.7}
       >
         <Text style={styles.completedTitle}>
-          Completed ({habits.length})
+          Completed ({habits.filter(habit => !habit.skipped).length})
+          {habits.some(habit => habit.skipped) && ` · Skipped (${habits.filter(habit => habit.skipped).length})`}
         </Text>
         <Animated.View style={animatedArrowStyle}>
           <Text style={styles.completedArrow}>▼</Text>
@@ -157,7 +198,8 @@ const CompletedSection = ({ habits, isExpanded, onToggle, renderHabitItem }: {
   );
 };
 
-const WeekIndicator = ({ weekProgress }: { weekProgress?: boolean[] }) => {
+// Days the habit wasn't scheduled on get a faint dot, so the scheduled ones stand out
+const WeekIndicator = ({ weekProgress }: { weekProgress?: HabitDayState[] }) => {
   if (!weekProgress) return null;
 
   const days = ['M', 'T', 'W', 'T', 'F', 'S', 'S'];
@@ -169,7 +211,10 @@ const WeekIndicator = ({ weekProgress }: { weekProgress?: boolean[] }) => {
           <Text style={styles.dayLabel}>{day}</Text>
           <View style={[
             styles.dayDot,
-            weekProgress[index] && styles.dayDotCompleted
+            weekProgress[index] === 'completed' && styles.dayDotCompleted,
+            weekProgress[index] === 'skipped' && styles.dayDotSkipped,
+            weekProgress[index] === 'missed' && styles.dayDotMissed,
+            (weekProgress[index] === 'none' || weekProgress[index] === 'paused') && styles.dayDotOff,
           ]} />
         </View>
       ))}
@@ -177,13 +222,21 @@ const WeekIndicator = ({ weekProgress }: { weekProgress?: boolean[] }) => {
   );
 };
 
-const HabitItem = ({ habit, isCompleted = false, onAnimationStart, onAnimationComplete, onLog }: {
+type SwipeAction = 'complete' | 'skip' | 'undo';
+
+const HabitItem = ({ habit, isCompleted = false, readOnly = false, slideIn = false, onAnimationStart, onAnimationComplete, onLog, onLogValue, onUnskip, onLongPress }: {
   habit: Habit;
   isCompleted?: boolean;
+  readOnly?: boolean; // Shown for reference only: no swiping, logging or undo
+  slideIn?: boolean; // Slide in from the left, for a habit just moved back from the completed section
   onAnimationStart?: () => void;
-  onAnimationComplete?: () => void;
+  onAnimationComplete?: (action: SwipeAction) => void; // Swipe right completes, swipe left skips; completed habits swipe left to undo
   onLog?: (event: string, payload?: Record<string, unknown>) => void;
+  onLogValue?: (value: number) => void;
+  onUnskip?: () => void;
+  onLongPress?: () => void; // Opens the note sheet for the day's completion
 }) => {
+  const isMeasurable = habit.kind === 'measurable' && !!habit.targetValue;
   const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
   const logSwipeEvent = useCallback((event: string, payload?: Record<string, unknown>) => {
     if (onLog) {
@@ -192,7 +245,7 @@ const HabitItem = ({ habit, isCompleted = false, onAnimationStart, onAnimationCo
   }, [onLog]);
 
   // Shared values for swipe and collapse animation
-  const translateX = useSharedValue(0);
+  const translateX = useSharedValue(slideIn ? -SCREEN_WIDTH : 0);
   const isActive = useSharedValue(false);
   const itemHeight = useSharedValue<number | null>(null);
   const opacity = useSharedValue(1);
@@ -200,6 +253,15 @@ const HabitItem = ({ habit, isCompleted = false, onAnimationStart, onAnimationCo
 
   const SWIPE_THRESHOLD = 120; // pixels needed to complete swipe
 
+  React.useEffect(() => {
+    if (slideIn) {
+      translateX.value = withTiming(0, {
+        duration: 250,
+        easing: Easing.out(Easing.ease),
+      });
+    }
+  }, [slideIn, translateX]);
+
   const resetAnimation = (reason: string) => {
     'worklet';
     runOnJS(logSwipeEvent)('reset', {
@@ -214,27 +276,34 @@ const HabitItem = ({ habit, isCompleted = false, onAnimationStart, onAnimationCo
     isActive.value = false;
   };
 
-  const gesture = useMemo(() => {
-    // For completed habits, don't allow any gesture interaction
-    if (isCompleted) {
-      return Gesture.Pan().enabled(false);
-    }
+  const longPressGesture = useMemo(() => {
+    return Gesture.LongPress()
+      .enabled(!readOnly && !!onLongPress)
+      .minDuration(450)
+      .onStart(() => {
+        if (onLongPress) {
+          runOnJS(onLongPress)();
+        }
+      });
+  }, [readOnly, onLongPress]);
 
+  const panGesture = useMemo(() => {
     return Gesture.Pan()
+      .enabled(!readOnly)
       .maxPointers(1)
-      .activeOffsetX(10) // Start recognizing after 10px horizontal movement
+      .activeOffsetX([-10, 10]) // Start recognizing after 10px horizontal movement either way
       .failOffsetY([-20, 20]) // Fail if vertical movement exceeds 20px (allow scrolling)
       .onStart(() => {
         isActive.value = true;
       })
       .onUpdate((event) => {
-        // Only allow swiping right (positive X)
-        if (event.translationX > 0) {
-          // Apply some resistance as user swipes further
-          const resistance = 0.8;
+        // Apply some resistance as user swipes further: right to complete, left to skip
+        // Completed habits only swipe left, to undo
+        const resistance = 0.8;
+        if (event.translationX > 0 && !isCompleted) {
           translateX.value = Math.min(event.translationX * resistance, dimensions.width * 0.6);
         } else {
-          translateX.value = 0;
+          translateX.value = Math.max(Math.min(event.translationX, 0) * resistance, -dimensions.width * 0.6);
         }
       })
       .onEnd((event) => {
@@ -244,15 +313,19 @@ const HabitItem = ({ habit, isCompleted = false, onAnimationStart, onAnimationCo
           threshold: SWIPE_THRESHOLD,
           width: dimensions.width,
         });
-        if (event.translationX >= SWIPE_THRESHOLD) {
-          runOnJS(logSwipeEvent)('threshold-met', { id: habit.id });
+        const isPastThreshold = isCompleted
+          ? event.translationX <= -SWIPE_THRESHOLD
+          : Math.abs(event.translationX) >= SWIPE_THRESHOLD;
+        if (isPastThreshold) {
+          const action: SwipeAction = isCompleted ? 'undo' : event.translationX > 0 ? 'complete' : 'skip';
+          runOnJS(logSwipeEvent)('threshold-met', { id: habit.id, action });
           // Notify that animation is starting (hide from list immediately)
           if (onAnimationStart) {
             runOnJS(onAnimationStart)();
           }
-          // Swipe completed - animate to full width
+          // Swipe completed - animate to full width in the swipe direction
           translateX.value = withTiming(
-            dimensions.width * 1.2,
+            Math.sign(event.translationX) * dimensions.width * 1.2,
             {
               duration: 200,
               easing: Easing.out(Easing.ease),
@@ -275,7 +348,7 @@ const HabitItem = ({ habit, isCompleted = false, onAnimationStart, onAnimationCo
                 }, (collapseFinished) => {
                   if (collapseFinished && onAnimationComplete) {
                     runOnJS(logSwipeEvent)('collapse-finished', { id: habit.id });
-                    runOnJS(onAnimationComplete)();
+                    runOnJS(onAnimationComplete)(action);
                   }
                 });
               }
@@ -294,12 +367,15 @@ const HabitItem = ({ habit, isCompleted = false, onAnimationStart, onAnimationCo
           translationX: event.translationX,
           translateX: translateX.value,
         });
-        if (translateX.value < SWIPE_THRESHOLD) {
+        if (Math.abs(translateX.value) < SWIPE_THRESHOLD) {
           runOnJS(logSwipeEvent)('finalize-reset', { id: habit.id });
           resetAnimation('finalize');
         }
       });
-  }, [habit.id, onAnimationStart, onAnimationComplete, logSwipeEvent, dimensions.width, dimensions.height, isCompleted]);
+  }, [habit.id, onAnimationStart, onAnimationComplete, logSwipeEvent, dimensions.width, dimensions.height, isCompleted, readOnly]);
+
+  // Holding still opens the note sheet; moving sideways swipes instead
+  const gesture = useMemo(() => Gesture.Race(panGesture, longPressGesture), [panGesture, longPressGesture]);
 
   const animatedContainerStyle = useAnimatedStyle(() => {
     return {
@@ -308,7 +384,14 @@ const HabitItem = ({ habit, isCompleted = false, onAnimationStart, onAnimationCo
   });
 
   const animatedBackgroundStyle = useAnimatedStyle(() => {
-    const progress = Math.min(translateX.value / SWIPE_THRESHOLD, 1);
+    const progress = Math.min(Math.max(translateX.value, 0) / SWIPE_THRESHOLD, 1);
+    return {
+      opacity: progress * 0.8,
+    };
+  });
+
+  const animatedSkipBackgroundStyle = useAnimatedStyle(() => {
+    const progress = Math.min(Math.max(-translateX.value, 0) / SWIPE_THRESHOLD, 1);
     return {
       opacity: progress * 0.8,
     };
@@ -337,20 +420,29 @@ const HabitItem = ({ habit, isCompleted = false, onAnimationStart, onAnimationCo
 
   return (
     <Animated.View
-      style={[styles.habitItemWrapper, !isCompleted && animatedWrapperStyle]}
+      style={[styles.habitItemWrapper, animatedWrapperStyle]}
     >
       {/* Background reveal on swipe */}
-      {!isCompleted && (
-        <Animated.View style={[styles.swipeBackground, animatedBackgroundStyle]}>
-          <Text style={styles.swipeBackgroundIcon}>✓</Text>
+      {isCompleted ? (
+        <Animated.View style={[styles.swipeBackground, styles.skipBackground, animatedSkipBackgroundStyle]}>
+          <Text style={styles.skipBackgroundText}>Undo</Text>
         </Animated.View>
+      ) : (
+        <>
+          <Animated.View style={[styles.swipeBackground, animatedBackgroundStyle]}>
+            <Text style={styles.swipeBackgroundIcon}>✓</Text>
+          </Animated.View>
+          <Animated.View style={[styles.swipeBackground, styles.skipBackground, animatedSkipBackgroundStyle]}>
+            <Text style={styles.skipBackgroundText}>Skip</Text>
+          </Animated.View>
+        </>
       )}
       <GestureDetector gesture={gesture}>
         <Animated.View
           style={[
             styles.habitItem,
             isCompleted && styles.habitItemCompleted,
-            !isCompleted && animatedContainerStyle
+            animatedContainerStyle
           ]}
           onLayout={handleLayout}
         >
@@ -360,16 +452,58 @@ const HabitItem = ({ habit, isCompleted = false, onAnimationStart, onAnimationCo
                 <Text style={styles.checkmark}>✓</Text>
               </View>
             )}
-            <Text style={[
-              styles.habitName,
-              isCompleted && styles.habitNameCompleted,
-              !habit.completed && { marginLeft: 0 }
-            ]}>{habit.name}</Text>
+            <View style={styles.habitNameColumn}>
+              <Text style={[
+                styles.habitName,
+                isCompleted && styles.habitNameCompleted,
+                !habit.completed && { marginLeft: 0 }
+              ]}>{habit.name}</Text>
+              {!!habit.note && (
+                <Text style={styles.habitNote} numberOfLines={1}>{habit.note}</Text>
+              )}
+            </View>
           </View>
           {habit.weekProgress && <WeekIndicator weekProgress={habit.weekProgress} />}
 
+          {/* Amount logging for measurable habits */}
+          {isMeasurable && !habit.completed && onLogValue && (
+            <View style={styles.amountStepper}>
+              <TouchableOpacity
+                style={styles.amountButton}
+                onPress={() => onLogValue(Math.max(0, (habit.value ?? 0) - getLogStep(habit.targetValue!)))}
+                disabled={!habit.value}
+                activeOpacity={0.7}
+              >
+                <Text style={[styles.amountButtonText, !habit.value && styles.amountButtonTextDisabled]}>−</Text>
+              </TouchableOpacity>
+              <Text style={styles.amountText}>{formatAmount(habit)}</Text>
+              <TouchableOpacity
+                style={styles.amountButton}
+                onPress={() => onLogValue((habit.value ?? 0) + getLogStep(habit.targetValue!))}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.amountButtonText}>+</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+          {isMeasurable && (habit.completed || !onLogValue) && (
+            <Text style={styles.amountTextCompleted}>{formatAmount(habit)}</Text>
+          )}
+
+          {/* Skipped habits can be brought back */}
+          {habit.skipped && (
+            <TouchableOpacity
+              style={styles.swipeHint}
+              onPress={onUnskip}
+              disabled={!onUnskip}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.swipeHintText}>{onUnskip ? 'Skipped · Undo' : 'Skipped'}</Text>
+            </TouchableOpacity>
+          )}
+
           {/* Swipe hint */}
-          {!habit.completed && (
+          {!habit.completed && !habit.skipped && !isMeasurable && !readOnly && (
             <View style={styles.swipeHint}>
               <Text style={styles.swipeHintText}>Swipe →</Text>
             </View>
@@ -383,23 +517,50 @@ const HabitItem = ({ habit, isCompleted = false, onAnimationStart, onAnimationCo
 export default function HomeScreen() {
   const insets = useSafeAreaInsets();
   const router = useRouter();
-  const { db } = useDatabase();
+  const params = useLocalSearchParams<{ date?: string }>();
   const [activeTab, setActiveTab] = useState<'today' | 'weekly'>('today');
   const [selectedDay, setSelectedDay] = useState<number>(new Date().getDay()); // Current day
   const [scheduleType, setScheduleType] = useState<HabitScheduleType>('custom');
   const [showCompleted, setShowCompleted] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
 
   // Track habits that are animating completion to prevent flicker
   const [animatingHabitIds, setAnimatingHabitIds] = useState<Set<string>>(new Set());
+  // Habits just moved back from the completed section, so they slide into the active list
+  const [restoredHabitIds, setRestoredHabitIds] = useState<Set<string>>(new Set());
+
+  // The last swipe, which the snackbar can undo for a few seconds; previousValue is the amount
+  // logged before it, which undoing brings back
+  const [undoAction, setUndoAction] = useState<{ habitId: string; name: string; action: SwipeAction; previousValue?: number } | null>(null);
+  const undoTimeout = React.useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Each habit's last swipe write still in flight, so an undo runs after the write it undoes
+  const pendingWrites = React.useRef(new Map<string, Promise<void>>());
 
   // Database hooks
   const [today, setToday] = useState(() => new Date());
-  const [isDebugMode, setIsDebugMode] = useState(false); // Track if date was manually set for testing
-  const { habits: todayHabits, isLoading: todayLoading, toggleHabit, refresh: refreshToday } = useHabitsForDate(today);
-  const { habits: dailyHabitsData, isLoading: dailyLoading, refresh: refreshDaily } = useDailyHabits();
-  const { habits: customHabitsData, isLoading: customLoading, refresh: refreshCustom } = useCustomHabits();
+  // Day shown on the Today tab as YYYY-MM-DD; null follows the current date
+  const [pickedDate, setPickedDate] = useState<string | null>(null);
+  const viewedDate = useMemo(() => (pickedDate ? parseDateString(pickedDate) : today), [pickedDate, today]);
+  const { habits: todayHabits, isLoading: todayLoading, toggleSkip, setCompleted, setSkipped, logValue, refresh: refreshToday } = useHabitsForDate(viewedDate);
   const { habits: intervalHabitsData, isLoading: intervalLoading, refresh: refreshInterval } = useIntervalHabits(today);
+  // Any day in the week the planner shows
+  const [plannerDate, setPlannerDate] = useState(() => new Date());
+  const { weekStart: plannerWeekStart, weekEnd: plannerWeekEnd, days: plannerDays, refresh: refreshPlanner } = usePlannerWeek(plannerDate);
+  const { habits: weeklyQuotaHabits, refresh: refreshWeekly } = useWeeklyHabits(plannerDate);
+  const { habits: monthlyHabits, refresh: refreshMonthly } = useMonthlyHabits();
+  const { habits: rruleHabits, refresh: refreshRRule } = useRRuleHabits();
+  const { habits: archivedHabits, refresh: refreshArchived } = useArchivedHabits();
   const { dailyStreak, refresh: refreshStats } = useHabitStats(undefined, today);
+  const { vacation, pausedHabitCount, refresh: refreshPauses, resumePause } = usePausesForDate(viewedDate);
+  const { value: allowPastDayEdits, refresh: refreshSettings } = useBooleanSetting('allowPastDayEdits');
+  const { entry: journalEntry, refresh: refreshJournal } = useJournalEntry(viewedDate);
+
+  const todayString = formatDateString(today);
+  const viewedDateString = formatDateString(viewedDate);
+  const isViewingToday = viewedDateString === todayString;
+  const isPastDay = viewedDateString < todayString;
+  // Future days only preview what is scheduled; past days follow the setting
+  const isReadOnly = viewedDateString > todayString || (isPastDay && !allowPastDayEdits);
   const MS_PER_DAY = 24 * 60 * 60 * 1000;
 
   const getDaysUntilDate = useCallback((dateString?: string) => {
@@ -414,22 +575,23 @@ export default function HomeScreen() {
   // Refresh data when screen comes into focus (after adding a habit)
   useFocusEffect(
     useCallback(() => {
-      // Only reset to current date if not in debug mode
-      if (!isDebugMode) {
-        setToday(new Date());
-      }
+      setToday(new Date());
       refreshToday();
-      refreshDaily();
-      refreshCustom();
       refreshInterval();
+      refreshWeekly();
+      refreshMonthly();
+      refreshRRule();
+      refreshArchived();
+      refreshPauses();
       refreshStats();
-    }, [isDebugMode, refreshToday, refreshDaily, refreshCustom, refreshInterval, refreshStats])
+      refreshSettings();
+      refreshPlanner();
+      refreshJournal();
+    }, [refreshToday, refreshInterval, refreshWeekly, refreshMonthly, refreshRRule, refreshArchived, refreshPauses, refreshStats, refreshSettings, refreshPlanner, refreshJournal])
   );
 
-  // Move to the next day at midnight (only if not in debug mode)
+  // Move to the next day at midnight
   React.useEffect(() => {
-    if (isDebugMode) return; // Don't auto-advance when testing
-
     const now = new Date();
     const nextMidnight = new Date(
       now.getFullYear(),
@@ -442,75 +604,78 @@ export default function HomeScreen() {
     }, timeoutMs);
 
     return () => clearTimeout(timer);
-  }, [today, isDebugMode]);
-
-  // Debug: Skip to next day (simulates midnight transition)
-  const skipToNextDay = useCallback(() => {
-    setIsDebugMode(true); // Enter debug mode to prevent auto-reset
-    const nextDay = new Date(today);
-    nextDay.setDate(nextDay.getDate() + 1);
-    nextDay.setHours(0, 0, 0, 0); // Set to midnight of next day
-    setToday(nextDay);
-    console.log('[Debug] Skipped to:', nextDay.toDateString());
   }, [today]);
 
-  // Debug: Reset all data
-  const resetDebugData = useCallback(() => {
-    if (!db) return;
-    Alert.alert(
-      'Reset All Data',
-      'This will delete all habits and completions. This cannot be undone.',
-      [
-        { text: 'Cancel', style: 'cancel' },
-        {
-          text: 'Reset',
-          style: 'destructive',
-          onPress: async () => {
-            await clearAllData(db);
-            setIsDebugMode(false);
-            setToday(new Date());
-            setAnimatingHabitIds(new Set());
-            setShowCompleted(false);
-            refreshToday();
-            refreshDaily();
-            refreshCustom();
-            refreshInterval();
-            refreshStats();
-            console.log('[Debug] Reset all data');
-          },
-        },
-      ]
-    );
-  }, [db, refreshToday, refreshDaily, refreshCustom, refreshInterval, refreshStats]);
-
   // Convert database habits to UI format
   const habits: Habit[] = todayHabits.map(h => ({
     id: h.id,
     name: h.name,
     completed: h.completed,
+    skipped: h.skipped,
+    weekProgress: h.weekProgress,
+    kind: h.kind,
+    value: h.value,
+    targetValue: h.targetValue,
+    unit: h.unit,
+    note: h.note,
   }));
 
-  // Build weekly habits from custom habits
-  const weeklyHabits: DayHabits = useMemo(() => {
+  // The planner's week, Monday first, with the date of each day
+  const daysOfWeek = useMemo(() => {
+    const labels = [
+      { short: 'M', full: 'Monday', dayOfWeek: 1 },
+      { short: 'T', full: 'Tuesday', dayOfWeek: 2 },
+      { short: 'W', full: 'Wednesday', dayOfWeek: 3 },
+      { short: 'T', full: 'Thursday', dayOfWeek: 4 },
+      { short: 'F', full: 'Friday', dayOfWeek: 5 },
+      { short: 'S', full: 'Saturday', dayOfWeek: 6 },
+      { short: 'S', full: 'Sunday', dayOfWeek: 0 },
+    ];
+    return labels.map((label, index) => {
+      const date = parseDateString(plannerWeekStart);
+      date.setDate(date.getDate() + index);
+      return { ...label, date: date.getDate(), dateString: formatDateString(date) };
+    });
+  }, [plannerWeekStart]);
+
+  // Habits of one schedule type on each day of the planner's week, as listed on that date
+  const getPlannerHabits = useCallback((type: HabitScheduleType): DayHabits => {
     const result: DayHabits = { 0: [], 1: [], 2: [], 3: [], 4: [], 5: [], 6: [] };
-    customHabitsData.forEach(habit => {
-      habit.days.forEach(day => {
-        result[day].push({
-          id: habit.id,
-          name: habit.name,
-          completed: false, // Would need to check completions for specific date
-        });
-      });
+    daysOfWeek.forEach(day => {
+      const items = plannerDays.find(plannerDay => plannerDay.date === day.dateString)?.items ?? [];
+      result[day.dayOfWeek] = items
+        .filter(item => item.scheduleType === type)
+        .map(item => ({
+          id: item.habitId,
+          name: item.name,
+          completed: item.done,
+        }));
     });
     return result;
-  }, [customHabitsData]);
+  }, [daysOfWeek, plannerDays]);
 
-  // Convert daily habits
-  const dailyHabits: Habit[] = dailyHabitsData.map(h => ({
-    id: h.id,
-    name: h.name,
-    completed: false, // Would need to check completions for specific date
-  }));
+  // Custom habits on each day of the planner's week
+  const weeklyHabits = useMemo(() => getPlannerHabits('custom'), [getPlannerHabits]);
+
+  // Daily habits on each day of the planner's week
+  const dailyHabitsByDay = useMemo(() => getPlannerHabits('daily'), [getPlannerHabits]);
+  const dailyHabits: Habit[] = dailyHabitsByDay[selectedDay] || [];
+
+  const isCurrentPlannerWeek = getWeekRange(today)[0] === plannerWeekStart;
+
+  const shiftPlannerWeek = useCallback((delta: number) => {
+    const date = parseDateString(plannerWeekStart);
+    date.setDate(date.getDate() + delta * 7);
+    setPlannerDate(date);
+  }, [plannerWeekStart]);
+
+  // The planner may show a week the Today tab has since changed
+  React.useEffect(() => {
+    if (activeTab === 'weekly') {
+      refreshPlanner();
+      refreshWeekly();
+    }
+  }, [activeTab, refreshPlanner, refreshWeekly]);
 
   // Convert interval habits
   const intervalHabits: IntervalHabit[] = intervalHabitsData.map(h => ({
@@ -532,11 +697,12 @@ export default function HomeScreen() {
       month: 'long',
       day: 'numeric'
     };
-    return today.toLocaleDateString('en-US', options);
-  }, [today]);
+    return viewedDate.toLocaleDateString('en-US', options);
+  }, [viewedDate]);
 
+  // Skipped habits count as neither done nor missed
   const completedHabits = habits.filter(h => h.completed).length;
-  const totalHabits = habits.length;
+  const totalHabits = habits.filter(h => !h.skipped).length;
   const dailyProgress = totalHabits > 0 ? (completedHabits / totalHabits) * 100 : 0;
   const isDayComplete = totalHabits > 0 && completedHabits === totalHabits;
 
@@ -558,28 +724,33 @@ export default function HomeScreen() {
     width: `${progressBarWidth.value}%`,
   }));
 
-  const daysOfWeek = [
-    { short: 'M', full: 'Monday', date: 1, dayOfWeek: 1 },
-    { short: 'T', full: 'Tuesday', date: 2, dayOfWeek: 2 },
-    { short: 'W', full: 'Wednesday', date: 3, dayOfWeek: 3 },
-    { short: 'T', full: 'Thursday', date: 4, dayOfWeek: 4 },
-    { short: 'F', full: 'Friday', date: 5, dayOfWeek: 5 },
-    { short: 'S', full: 'Saturday', date: 6, dayOfWeek: 6 },
-    { short: 'S', full: 'Sunday', date: 7, dayOfWeek: 0 },
-  ];
-
   // Called when swipe animation starts - mark as animating to prevent flicker in completed section
   const onHabitAnimationStart = useCallback((id: string) => {
     setAnimatingHabitIds(prev => new Set(prev).add(id));
     console.log('[HabitSwipe] animation-start', { id });
   }, []);
 
+  // Run a swipe's database write once the habit's previous one has landed
+  const queueWrite = useCallback((id: string, write: () => Promise<void>) => {
+    const queued = (pendingWrites.current.get(id) ?? Promise.resolve())
+      .then(write)
+      .catch((error) => console.error('[HabitSwipe] write failed', { id, error }))
+      .finally(() => refreshStats());
+    pendingWrites.current.set(id, queued);
+    queued.then(() => {
+      if (pendingWrites.current.get(id) === queued) pendingWrites.current.delete(id);
+    });
+    return queued;
+  }, [refreshStats]);
+
   // Called when swipe animation completes - persist to database
-  const onHabitAnimationComplete = useCallback((id: string) => {
-    console.log('[HabitSwipe] animation-complete', { id });
-    // Small delay to ensure the collapse animation has visually completed
-    setTimeout(() => {
-      toggleHabit(id).finally(() => refreshStats());
+  const onHabitAnimationComplete = useCallback((id: string, action: SwipeAction) => {
+    console.log('[HabitSwipe] animation-complete', { id, action });
+    queueWrite(id, async () => {
+      // Small delay to ensure the collapse animation has visually completed
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      await (action === 'skip' ? setSkipped(id, true) : setCompleted(id, action === 'complete'));
+    }).then(() => {
       // Remove from animating set after DB update
       setTimeout(() => {
         setAnimatingHabitIds(prev => {
@@ -588,8 +759,105 @@ export default function HomeScreen() {
           return next;
         });
       }, 50);
-    }, 50);
-  }, [toggleHabit]);
+    });
+
+    const habit = todayHabits.find(h => h.id === id);
+    if (habit) {
+      if (undoTimeout.current) clearTimeout(undoTimeout.current);
+      setUndoAction({ habitId: id, name: habit.name, action, previousValue: habit.value });
+      undoTimeout.current = setTimeout(() => setUndoAction(null), UNDO_DURATION_MS);
+    }
+  }, [todayHabits, queueWrite, setCompleted, setSkipped]);
+
+  // Move a done or skipped habit back into the active list; `revert` is the write that does it,
+  // by default clearing the completion or skip shown for the habit
+  const restoreHabit = useCallback((id: string, revert?: () => Promise<void>) => {
+    const habit = todayHabits.find(h => h.id === id);
+    if (!habit && !revert) return;
+    setRestoredHabitIds(prev => new Set(prev).add(id));
+    queueWrite(id, revert ?? (() => (habit?.skipped ? setSkipped(id, false) : setCompleted(id, false)))).then(() => {
+      // Keep the flag until the item has mounted in the active list
+      setTimeout(() => {
+        setRestoredHabitIds(prev => {
+          const next = new Set(prev);
+          next.delete(id);
+          return next;
+        });
+      }, 300);
+    });
+  }, [todayHabits, queueWrite, setCompleted, setSkipped]);
+
+  // Undo the last swipe with the exact inverse of what it wrote
+  const undoLastSwipe = useCallback(() => {
+    if (!undoAction) return;
+    if (undoTimeout.current) clearTimeout(undoTimeout.current);
+    setUndoAction(null);
+    const { habitId, action, previousValue } = undoAction;
+    restoreHabit(habitId, async () => {
+      if (action === 'skip') {
+        await setSkipped(habitId, false);
+      }
+      if (previousValue) {
+        // An amount logged before the swipe comes back as it was
+        await logValue(habitId, previousValue);
+      } else if (action !== 'skip') {
+        await setCompleted(habitId, action === 'undo');
+      }
+    });
+  }, [undoAction, restoreHabit, setCompleted, setSkipped, logValue]);
+
+  React.useEffect(() => () => {
+    if (undoTimeout.current) clearTimeout(undoTimeout.current);
+  }, []);
+
+  // Note on the viewed day's completion of a habit; saving it completes the habit if needed
+  const openNoteSheet = useCallback((habitId: string) => {
+    if (undoTimeout.current) clearTimeout(undoTimeout.current);
+    setUndoAction(null);
+    router.push(`/modal/completion-note?habitId=${habitId}&date=${viewedDateString}`);
+  }, [router, viewedDateString]);
+
+  // Show another day on the Today tab; the snackbar only undoes swipes on the day they happened
+  const showDate = useCallback((dateString: string) => {
+    setPickedDate(dateString === todayString ? null : dateString);
+    setUndoAction(null);
+  }, [todayString]);
+
+  const shiftDay = useCallback((delta: number) => {
+    const date = new Date(viewedDate);
+    date.setDate(date.getDate() + delta);
+    showDate(formatDateString(date));
+  }, [viewedDate, showDate]);
+
+  // A day chosen in the date picker or the calendar comes in as the `date` param
+  React.useEffect(() => {
+    if (!params.date) return;
+    showDate(params.date);
+    setActiveTab('today');
+    router.setParams({ date: undefined });
+  }, [params.date, showDate, router]);
+
+  // Swiping the header and streak card moves a day back or forward
+  const dayShiftX = useSharedValue(0);
+  const daySwipeGesture = useMemo(() => Gesture.Pan()
+    .activeOffsetX([-10, 10])
+    .failOffsetY([-15, 15])
+    .onUpdate((event) => {
+      dayShiftX.value = event.translationX * 0.3;
+    })
+    .onEnd((event) => {
+      if (Math.abs(event.translationX) > DAY_SWIPE_THRESHOLD || Math.abs(event.velocityX) > 500) {
+        runOnJS(shiftDay)(event.translationX < 0 ? 1 : -1);
+      }
+      dayShiftX.value = withTiming(0, {
+        duration: 200,
+        easing: Easing.out(Easing.ease),
+      });
+    }), [shiftDay, dayShiftX]);
+
+  const animatedDayShiftStyle = useAnimatedStyle(() => ({
+    transform: [{ translateX: dayShiftX.value }],
+  }));
 
   const logSwipeEvent = useCallback((event: string, payload?: Record<string, unknown>) => {
     console.log(`[HabitSwipe] ${event}`, payload ?? {});
@@ -655,7 +923,9 @@ export default function HomeScreen() {
         <View style={styles.progressBarBackground}>
           <Animated.View style={[styles.progressBarFill, animatedProgressStyle]} />
         </View>
-        <Text style={styles.progressText}>Today's Progress: {completedHabits}/{totalHabits}</Text>
+        <Text style={styles.progressText}>
+          {isViewingToday ? "Today's Progress" : 'Progress'}: {completedHabits}/{totalHabits}
+        </Text>
       </View>
     );
   };
@@ -663,45 +933,53 @@ export default function HomeScreen() {
   const renderWeeklyView = () => {
     const selectedDayHabits = weeklyHabits[selectedDay] || [];
     const selectedDayInfo = daysOfWeek.find((day) => day.dayOfWeek === selectedDay) ?? daysOfWeek[0];
+    const formatWeekDay = (dateString: string) =>
+      parseDateString(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
 
     return (
       <View style={styles.weeklyContainer}>
-        {/* Schedule Type Selector */}
-        <View style={styles.scheduleTypeSelector}>
-          <TouchableOpacity
-            style={[styles.scheduleTypeButton, scheduleType === 'daily' && styles.scheduleTypeButtonActive]}
-            onPress={() => setScheduleType('daily')}
-            activeOpacity={0.7}
-          >
-            <Text style={[styles.scheduleTypeText, scheduleType === 'daily' && styles.scheduleTypeTextActive]}>
-              Daily
-            </Text>
+        {/* Week Navigator */}
+        <View style={styles.weekNavigator}>
+          <TouchableOpacity style={styles.weekNavArrow} onPress={() => shiftPlannerWeek(-1)} activeOpacity={0.7}>
+            <Text style={styles.weekNavArrowText}>‹</Text>
           </TouchableOpacity>
           <TouchableOpacity
-            style={[styles.scheduleTypeButton, scheduleType === 'custom' && styles.scheduleTypeButtonActive]}
-            onPress={() => setScheduleType('custom')}
+            style={styles.weekNavCenter}
+            onPress={() => setPlannerDate(new Date())}
+            disabled={isCurrentPlannerWeek}
             activeOpacity={0.7}
           >
-            <Text style={[styles.scheduleTypeText, scheduleType === 'custom' && styles.scheduleTypeTextActive]}>
-              Custom
+            <Text style={styles.weekNavTitle}>
+              {formatWeekDay(plannerWeekStart)} – {formatWeekDay(plannerWeekEnd)}
             </Text>
+            <Text style={styles.weekNavSubtitle}>{isCurrentPlannerWeek ? 'This week' : 'Tap to go to this week'}</Text>
           </TouchableOpacity>
-          <TouchableOpacity
-            style={[styles.scheduleTypeButton, scheduleType === 'interval' && styles.scheduleTypeButtonActive]}
-            onPress={() => setScheduleType('interval')}
-            activeOpacity={0.7}
-          >
-            <Text style={[styles.scheduleTypeText, scheduleType === 'interval' && styles.scheduleTypeTextActive]}>
-              Interval
-            </Text>
+          <TouchableOpacity style={styles.weekNavArrow} onPress={() => shiftPlannerWeek(1)} activeOpacity={0.7}>
+            <Text style={styles.weekNavArrowText}>›</Text>
           </TouchableOpacity>
         </View>
 
-        {/* Day Selector - Only show for Custom schedules */}
-        {scheduleType === 'custom' && (
+        {/* Schedule Type Selector */}
+        <View style={styles.scheduleTypeSelector}>
+          {SCHEDULE_TYPE_OPTIONS.map((option) => (
+            <TouchableOpacity
+              key={option.type}
+              style={[styles.scheduleTypeButton, scheduleType === option.type && styles.scheduleTypeButtonActive]}
+              onPress={() => setScheduleType(option.type)}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.scheduleTypeText, scheduleType === option.type && styles.scheduleTypeTextActive]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {/* Day Selector - Only show for day-based schedules */}
+        {(scheduleType === 'custom' || scheduleType === 'daily') && (
           <View style={styles.daySelector}>
             {daysOfWeek.map((day) => {
-              const dayHabits = weeklyHabits[day.dayOfWeek] || [];
+              const dayHabits = (scheduleType === 'daily' ? dailyHabitsByDay : weeklyHabits)[day.dayOfWeek] || [];
               const completedCount = dayHabits.filter(h => h.completed).length;
               const totalCount = dayHabits.length;
               const isSelected = selectedDay === day.dayOfWeek;
@@ -716,6 +994,9 @@ export default function HomeScreen() {
                   <Text style={[styles.dayCardLetter, isSelected && styles.dayCardLetterSelected]}>
                     {day.short}
                   </Text>
+                  <Text style={[styles.dayCardDate, isSelected && styles.dayCardDateSelected]}>
+                    {day.date}
+                  </Text>
                   <View style={styles.dayCardProgress}>
                     <View style={styles.dayCardProgressBar}>
                       <View
@@ -744,7 +1025,7 @@ export default function HomeScreen() {
                 <TouchableOpacity
                   key={habit.id}
                   style={[styles.gridHabitCard, habit.completed && styles.gridHabitCardCompleted]}
-                  onPress={() => router.push(`/modal/edit-habit?habitId=${habit.id}`)}
+                  onPress={() => router.push(`/habit/${habit.id}`)}
                   activeOpacity={0.7}
                 >
                   <View style={styles.gridHabitContent}>
@@ -766,7 +1047,7 @@ export default function HomeScreen() {
                     </Text>
                   </View>
                   <View style={styles.editIndicator}>
-                    <Text style={styles.editIndicatorText}>Edit</Text>
+                    <Text style={styles.editIndicatorText}>Details</Text>
                   </View>
                 </TouchableOpacity>
               ))}
@@ -786,13 +1067,13 @@ export default function HomeScreen() {
         {scheduleType === 'daily' && (
           <View style={styles.weeklyContent}>
             <Text style={styles.weeklyDayTitle}>Daily Habits</Text>
-            <Text style={styles.weeklySubtitle}>Repeat every single day</Text>
+            <Text style={styles.weeklySubtitle}>Repeat every single day · {selectedDayInfo.full}</Text>
             <View style={styles.habitsGrid}>
               {dailyHabits.map((habit) => (
                 <TouchableOpacity
                   key={habit.id}
                   style={[styles.gridHabitCard, habit.completed && styles.gridHabitCardCompleted]}
-                  onPress={() => router.push(`/modal/edit-habit?habitId=${habit.id}`)}
+                  onPress={() => router.push(`/habit/${habit.id}`)}
                   activeOpacity={0.7}
                 >
                   <View style={styles.gridHabitContent}>
@@ -814,7 +1095,7 @@ export default function HomeScreen() {
                     </Text>
                   </View>
                   <View style={styles.editIndicator}>
-                    <Text style={styles.editIndicatorText}>Edit</Text>
+                    <Text style={styles.editIndicatorText}>Details</Text>
                   </View>
                 </TouchableOpacity>
               ))}
@@ -840,7 +1121,7 @@ export default function HomeScreen() {
                 <TouchableOpacity
                   key={habit.id}
                   style={[styles.intervalHabitCard, habit.completed && styles.intervalHabitCardCompleted]}
-                  onPress={() => router.push(`/modal/edit-habit?habitId=${habit.id}`)}
+                  onPress={() => router.push(`/habit/${habit.id}`)}
                   activeOpacity={0.7}
                 >
                   <View style={styles.intervalHabitLeft}>
@@ -867,7 +1148,7 @@ export default function HomeScreen() {
                         {habit.daysUntilDue === 0 ? 'Today' : `${habit.daysUntilDue ?? habit.interval}d`}
                       </Text>
                     </View>
-                    <Text style={styles.editIndicatorTextSmall}>Edit</Text>
+                    <Text style={styles.editIndicatorTextSmall}>Details</Text>
                   </View>
                 </TouchableOpacity>
               ))}
@@ -881,6 +1162,162 @@ export default function HomeScreen() {
             </View>
           </View>
         )}
+
+        {/* Weekly Quota Habits View */}
+        {scheduleType === 'weekly' && (
+          <View style={styles.weeklyContent}>
+            <Text style={styles.weeklyDayTitle}>Weekly Habits</Text>
+            <Text style={styles.weeklySubtitle}>X times a week, on any days</Text>
+            <View style={styles.intervalHabitsList}>
+              {weeklyQuotaHabits.map((habit) => {
+                // Skips excuse occurrences, so they count toward the target like completions
+                const weekCount = getWeeklyQuotaCount(habit);
+                const isQuotaMet = weekCount >= habit.weeklyTarget;
+                return (
+                  <TouchableOpacity
+                    key={habit.id}
+                    style={[styles.intervalHabitCard, isQuotaMet && styles.intervalHabitCardCompleted]}
+                    onPress={() => router.push(`/habit/${habit.id}`)}
+                    activeOpacity={0.7}
+                  >
+                    <View style={styles.intervalHabitLeft}>
+                      <View style={styles.intervalHabitText}>
+                        <Text style={styles.intervalHabitName}>{habit.name}</Text>
+                        <Text style={styles.intervalHabitSchedule}>
+                          {habit.weeklyTarget} {habit.weeklyTarget === 1 ? 'time' : 'times'} a week
+                        </Text>
+                      </View>
+                    </View>
+                    <View style={styles.intervalHabitRight}>
+                      <View style={[styles.intervalHabitBadge, isQuotaMet && styles.intervalHabitBadgeToday]}>
+                        <Text style={styles.intervalHabitBadgeText}>
+                          {Math.min(weekCount, habit.weeklyTarget)}/{habit.weeklyTarget}{isCurrentPlannerWeek ? ' this week' : ''}
+                        </Text>
+                      </View>
+                      <Text style={styles.editIndicatorTextSmall}>Details</Text>
+                    </View>
+                  </TouchableOpacity>
+                );
+              })}
+              <TouchableOpacity
+                style={styles.addHabitButton}
+                activeOpacity={0.7}
+                onPress={() => router.push('/modal/add-weekly-habit')}
+              >
+                <Text style={styles.addHabitButtonText}>+ Add Weekly Habit</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        {/* Monthly Habits View */}
+        {scheduleType === 'monthly' && (
+          <View style={styles.weeklyContent}>
+            <Text style={styles.weeklyDayTitle}>Monthly Habits</Text>
+            <Text style={styles.weeklySubtitle}>On a day or weekday of each month</Text>
+            <View style={styles.intervalHabitsList}>
+              {monthlyHabits.map((habit) => (
+                <TouchableOpacity
+                  key={habit.id}
+                  style={styles.intervalHabitCard}
+                  onPress={() => router.push(`/habit/${habit.id}`)}
+                  activeOpacity={0.7}
+                >
+                  <View style={styles.intervalHabitLeft}>
+                    <View style={styles.intervalHabitText}>
+                      <Text style={styles.intervalHabitName}>{habit.name}</Text>
+                      <Text style={styles.intervalHabitSchedule}>{describeMonthlySchedule(habit)}</Text>
+                    </View>
+                  </View>
+                  <View style={styles.intervalHabitRight}>
+                    <Text style={styles.editIndicatorTextSmall}>Details</Text>
+                  </View>
+                </TouchableOpacity>
+              ))}
+              <TouchableOpacity
+                style={styles.addHabitButton}
+                activeOpacity={0.7}
+                onPress={() => router.push('/modal/add-monthly-habit')}
+              >
+                <Text style={styles.addHabitButtonText}>+ Add Monthly Habit</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        {/* RRULE Habits View */}
+        {scheduleType === 'rrule' && (
+          <View style={styles.weeklyContent}>
+            <Text style={styles.weeklyDayTitle}>Repeating Rules</Text>
+            <Text style={styles.weeklySubtitle}>Calendar-style recurrence rules</Text>
+            <View style={styles.intervalHabitsList}>
+              {rruleHabits.map((habit) => (
+                <TouchableOpacity
+                  key={habit.id}
+                  style={styles.intervalHabitCard}
+                  onPress={() => router.push(`/habit/${habit.id}`)}
+                  activeOpacity={0.7}
+                >
+                  <View style={styles.intervalHabitLeft}>
+                    <View style={styles.intervalHabitText}>
+                      <Text style={styles.intervalHabitName}>{habit.name}</Text>
+                      <Text style={styles.intervalHabitSchedule}>{describeStoredRRule(habit.rrule)}</Text>
+                    </View>
+                  </View>
+                  <View style={styles.intervalHabitRight}>
+                    <Text style={styles.editIndicatorTextSmall}>Details</Text>
+                  </View>
+                </TouchableOpacity>
+              ))}
+              <TouchableOpacity
+                style={styles.addHabitButton}
+                activeOpacity={0.7}
+                onPress={() => router.push(`/modal/add-rrule-habit?date=${formatDateString(today)}`)}
+              >
+                <Text style={styles.addHabitButtonText}>+ Add Repeating Habit</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        {/* Archived Habits - off the schedule, tap to edit or unarchive */}
+        {archivedHabits.length > 0 && (
+          <View style={styles.completedSection}>
+            <TouchableOpacity
+              style={styles.completedHeader}
+              onPress={() => setShowArchived(!showArchived)}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.completedTitle}>Archived ({archivedHabits.length})</Text>
+              <Text style={styles.completedArrow}>{showArchived ? '▲' : '▼'}</Text>
+            </TouchableOpacity>
+            {showArchived && (
+              <View style={[styles.completedList, styles.intervalHabitsList]}>
+                {archivedHabits.map((habit) => (
+                  <TouchableOpacity
+                    key={habit.id}
+                    style={[styles.intervalHabitCard, styles.archivedHabitCard]}
+                    onPress={() => router.push(`/habit/${habit.id}`)}
+                    activeOpacity={0.7}
+                  >
+                    <View style={styles.intervalHabitLeft}>
+                      <View style={styles.intervalHabitText}>
+                        <Text style={styles.intervalHabitName}>{habit.name}</Text>
+                        <Text style={styles.intervalHabitSchedule}>
+                          {SCHEDULE_TYPE_OPTIONS.find((option) => option.type === habit.scheduleType)?.label}
+                          {habit.archivedDate && ` · archived ${parseDateString(habit.archivedDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`}
+                        </Text>
+                      </View>
+                    </View>
+                    <View style={styles.intervalHabitRight}>
+                      <Text style={styles.editIndicatorTextSmall}>Details</Text>
+                    </View>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+          </View>
+        )}
       </View>
     );
   };
@@ -961,43 +1398,116 @@ export default function HomeScreen() {
               {/* Today Tab */}
               <View style={styles.tabPage}>
                 <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
-                  {/* Header */}
-                  <View style={styles.todayHeader}>
-                    <Text style={styles.todayHeaderLogo}>habits</Text>
-                    <View style={styles.todayHeaderRight}>
-                      <Text style={styles.todayHeaderDate}>{currentDate}</Text>
-                      {/* Debug: Skip to next day button */}
-                      <View style={styles.debugButtonRow}>
-                        <TouchableOpacity
-                          style={styles.debugSkipButton}
-                          onPress={skipToNextDay}
-                          activeOpacity={0.7}
-                        >
-                          <Text style={styles.debugSkipButtonText}>Skip →</Text>
-                        </TouchableOpacity>
-                        {isDebugMode && (
+                  {/* Header and streak card: swipe sideways to move between days */}
+                  <GestureDetector gesture={daySwipeGesture}>
+                    <Animated.View style={animatedDayShiftStyle}>
+                      {/* Header */}
+                      <View style={styles.todayHeader}>
+                        <Text style={styles.todayHeaderLogo}>habits</Text>
+                        <View style={styles.todayHeaderRight}>
                           <TouchableOpacity
-                            style={styles.debugResetButton}
-                            onPress={resetDebugData}
+                            onPress={() => router.push(`/modal/pick-date?date=${viewedDateString}`)}
                             activeOpacity={0.7}
                           >
-                            <Text style={styles.debugResetButtonText}>Reset</Text>
+                            <Text style={styles.todayHeaderDate}>{currentDate} ▾</Text>
                           </TouchableOpacity>
-                        )}
+                          <View style={styles.headerButtonRow}>
+                            {!isViewingToday && (
+                              <TouchableOpacity
+                                style={styles.backToTodayChip}
+                                onPress={() => showDate(todayString)}
+                                activeOpacity={0.7}
+                              >
+                                <Text style={styles.backToTodayChipText}>Back to today</Text>
+                              </TouchableOpacity>
+                            )}
+                            <TouchableOpacity
+                              style={styles.settingsButton}
+                              onPress={() => router.push('/modal/search-notes')}
+                              activeOpacity={0.7}
+                            >
+                              <Text style={styles.settingsButtonText}>Notes</Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                              style={styles.settingsButton}
+                              onPress={() => router.push('/modal/settings')}
+                              activeOpacity={0.7}
+                            >
+                              <Text style={styles.settingsButtonText}>Settings</Text>
+                            </TouchableOpacity>
+                          </View>
+                        </View>
                       </View>
-                    </View>
-                  </View>
 
-                  {/* Streak Card with Gradient */}
-                  <View style={styles.streakCard}>
-                    {/* Circular Streak Indicator */}
-                    {renderCircularProgress()}
+                      {/* Streak Card with Gradient */}
+                      <View style={styles.streakCard}>
+                        {/* Circular Streak Indicator */}
+                        {renderCircularProgress()}
 
-                    {/* Progress Bar */}
-                    {renderProgressBar()}
-                  </View>
+                        {/* Progress Bar */}
+                        {renderProgressBar()}
+                      </View>
+                    </Animated.View>
+                  </GestureDetector>
+
+                  {/* Journal Card: reflections can still be written for past days, but not ahead of time */}
+                  <JournalCard
+                    entry={journalEntry}
+                    onPress={
+                      viewedDateString > todayString
+                        ? undefined
+                        : () => router.push(`/modal/journal?date=${viewedDateString}`)
+                    }
+                  />
+
+                  {/* Read-only notice for days that can't be changed */}
+                  {isReadOnly && (
+                    <View style={styles.emptyDayNotice}>
+                      <Text style={styles.emptyDayNoticeText}>
+                        {isPastDay
+                          ? 'Past days are read-only. You can allow editing them in Settings.'
+                          : 'This day is still ahead. Habits can be checked off once it arrives.'}
+                      </Text>
+                    </View>
+                  )}
 
-                  {habits.length === 0 && (
+                  {/* Pause Banner */}
+                  {vacation ? (
+                    <View style={styles.pauseBanner}>
+                      <View style={styles.pauseBannerText}>
+                        <Text style={styles.pauseBannerTitle}>On vacation</Text>
+                        <Text style={styles.pauseBannerSubtitle}>
+                          {vacation.endDate
+                            ? `Habits are paused until ${parseDateString(vacation.endDate).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}. Your streak is safe.`
+                            : 'Habits are paused until you resume. Your streak is safe.'}
+                        </Text>
+                      </View>
+                      {isViewingToday && (
+                        <TouchableOpacity
+                          style={styles.pauseBannerButton}
+                          activeOpacity={0.7}
+                          onPress={() =>
+                            resumePause(vacation.id).then(() => {
+                              refreshToday();
+                              refreshStats();
+                            })
+                          }
+                        >
+                          <Text style={styles.pauseBannerButtonText}>Resume</Text>
+                        </TouchableOpacity>
+                      )}
+                    </View>
+                  ) : pausedHabitCount > 0 && (
+                    <View style={styles.pauseBanner}>
+                      <View style={styles.pauseBannerText}>
+                        <Text style={styles.pauseBannerSubtitle}>
+                          {pausedHabitCount === 1 ? '1 habit is' : `${pausedHabitCount} habits are`} paused {isViewingToday ? 'today' : 'on this day'}
+                        </Text>
+                      </View>
+                    </View>
+                  )}
+
+                  {habits.length === 0 && !vacation && !isReadOnly && (
                     <View style={styles.emptyDayNotice}>
                       <Text style={styles.emptyDayNoticeText}>
                         Add a habit to avoid losing your streak.
@@ -1008,39 +1518,64 @@ export default function HomeScreen() {
                   {/* Active Habits List */}
                   <View style={styles.habitsList}>
                     {habits
-                      .filter(h => !h.completed || animatingHabitIds.has(h.id))
+                      .filter(h => (!h.completed && !h.skipped) || animatingHabitIds.has(h.id))
                       .map(habit => (
                         <HabitItem
                           key={habit.id}
                           habit={habit}
                           isCompleted={false}
+                          readOnly={isReadOnly}
+                          slideIn={restoredHabitIds.has(habit.id)}
                           onAnimationStart={() => onHabitAnimationStart(habit.id)}
-                          onAnimationComplete={() => onHabitAnimationComplete(habit.id)}
+                          onAnimationComplete={(action) => onHabitAnimationComplete(habit.id, action)}
                           onLog={logSwipeEvent}
+                          onLogValue={isReadOnly ? undefined : (value) => logValue(habit.id, value).finally(() => refreshStats())}
+                          onLongPress={() => openNoteSheet(habit.id)}
                         />
                       ))}
                   </View>
 
                   {/* Completed Section */}
-                  {habits.some(h => h.completed && !animatingHabitIds.has(h.id)) && (
+                  {habits.some(h => (h.completed || h.skipped) && !animatingHabitIds.has(h.id)) && (
                     <CompletedSection
-                      habits={habits.filter(h => h.completed && !animatingHabitIds.has(h.id))}
+                      habits={habits.filter(h => (h.completed || h.skipped) && !animatingHabitIds.has(h.id))}
                       isExpanded={showCompleted}
                       onToggle={() => setShowCompleted(!showCompleted)}
                       renderHabitItem={(habit) => (
-                        <HabitItem key={habit.id} habit={habit} isCompleted={true} onLog={logSwipeEvent} />
+                        <HabitItem
+                          key={habit.id}
+                          habit={habit}
+                          isCompleted={true}
+                          readOnly={isReadOnly}
+                          onAnimationComplete={() => restoreHabit(habit.id)}
+                          onLog={logSwipeEvent}
+                          onUnskip={isReadOnly ? undefined : () => toggleSkip(habit.id).finally(() => refreshStats())}
+                          onLongPress={habit.skipped ? undefined : () => openNoteSheet(habit.id)}
+                        />
                       )}
                     />
                   )}
 
-                  {/* Add Habit Button */}
-                  <TouchableOpacity
-                    style={styles.addHabitButton}
-                    activeOpacity={0.7}
-                    onPress={() => router.push(`/modal/add-today-habit?date=${formatDateString(today)}`)}
-                  >
-                    <Text style={styles.addHabitButtonText}>+ Add Habit</Text>
-                  </TouchableOpacity>
+                  {/* Add Habit Button - one-time habits can be planned ahead, but not added to locked past days */}
+                  {!(isPastDay && isReadOnly) && (
+                    <TouchableOpacity
+                      style={styles.addHabitButton}
+                      activeOpacity={0.7}
+                      onPress={() => router.push(`/modal/add-today-habit?date=${viewedDateString}`)}
+                    >
+                      <Text style={styles.addHabitButtonText}>+ Add Habit</Text>
+                    </TouchableOpacity>
+                  )}
+
+                  {!vacation && (
+                    <TouchableOpacity
+                      style={styles.vacationLink}
+                      activeOpacity={0.7}
+                      onPress={() => router.push('/modal/pause-habits')}
+                    >
+                      <Text style={styles.vacationLinkText}>Going away? Plan a vacation</Text>
+                    </TouchableOpacity>
+                  )}
                 </ScrollView>
               </View>
 
@@ -1054,6 +1589,27 @@ export default function HomeScreen() {
                 </ScrollView>
               </View>
             </Animated.View>
+
+            {/* Undo snackbar for the last swipe */}
+            {undoAction && activeTab === 'today' && (
+              <View style={styles.undoSnackbar}>
+                <Text style={styles.undoSnackbarText} numberOfLines={1}>
+                  {undoAction.action === 'skip' ? 'Skipped' : 'Completed'} {undoAction.name}
+                </Text>
+                {undoAction.action === 'complete' && (
+                  <TouchableOpacity
+                    style={styles.undoSnackbarAction}
+                    onPress={() => openNoteSheet(undoAction.habitId)}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={styles.undoSnackbarButton}>Add note</Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity onPress={undoLastSwipe} activeOpacity={0.7}>
+                  <Text style={styles.undoSnackbarButton}>Undo</Text>
+                </TouchableOpacity>
+              </View>
+            )}
           </View>
         </GestureDetector>
 
@@ -1090,6 +1646,36 @@ export default function HomeScreen() {
               activeTab === 'weekly' && styles.tabLabelActive
             ]}>Weekly</Text>
           </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.tabButton}
+            onPress={() => router.navigate('/calendar')}
+          >
+            <View style={styles.tabIcon}>
+              <Text style={styles.tabIconText}>🗓️</Text>
+            </View>
+            <Text style={styles.tabLabel}>Calendar</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.tabButton}
+            onPress={() => router.navigate('/agenda')}
+          >
+            <View style={styles.tabIcon}>
+              <Text style={styles.tabIconText}>⏭️</Text>
+            </View>
+            <Text style={styles.tabLabel}>Upcoming</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.tabButton}
+            onPress={() => router.navigate('/stats')}
+          >
+            <View style={styles.tabIcon}>
+              <Text style={styles.tabIconText}>📊</Text>
+            </View>
+            <Text style={styles.tabLabel}>Stats</Text>
+          </TouchableOpacity>
         </View>
       </View>
     </GestureHandlerRootView>
@@ -1316,6 +1902,14 @@ const styles = StyleSheet.create({
     letterSpacing: -0.2,
     zIndex: 2,
   },
+  habitNameColumn: {
+    flexShrink: 1,
+  },
+  habitNote: {
+    marginTop: 2,
+    fontSize: 13,
+    color: '#4F7F77',
+  },
   habitNameCompleted: {
     color: '#999',
     textDecorationLine: 'line-through',
@@ -1346,6 +1940,15 @@ const styles = StyleSheet.create({
   dayDotCompleted: {
     backgroundColor: '#8BBFB8',
   },
+  dayDotSkipped: {
+    backgroundColor: '#B8C4C2',
+  },
+  dayDotMissed: {
+    backgroundColor: '#F3D6D6',
+  },
+  dayDotOff: {
+    backgroundColor: '#F4F5F8',
+  },
   addHabitButton: {
     marginHorizontal: 20,
     marginTop: 20,
@@ -1362,6 +1965,48 @@ const styles = StyleSheet.create({
     color: '#8BBFB8',
     fontWeight: '600',
   },
+  pauseBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 20,
+    marginTop: 16,
+    padding: 16,
+    backgroundColor: '#F0F8F7',
+    borderRadius: 12,
+  },
+  pauseBannerText: {
+    flex: 1,
+  },
+  pauseBannerTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#4F7F77',
+    marginBottom: 4,
+  },
+  pauseBannerSubtitle: {
+    fontSize: 14,
+    color: '#4F7F77',
+  },
+  pauseBannerButton: {
+    marginLeft: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    backgroundColor: '#8BBFB8',
+    borderRadius: 20,
+  },
+  pauseBannerButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  vacationLink: {
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  vacationLinkText: {
+    fontSize: 14,
+    color: '#8BBFB8',
+  },
   completedSection: {
     marginHorizontal: 20,
     marginTop: 24,
@@ -1393,6 +2038,9 @@ const styles = StyleSheet.create({
   completedList: {
     marginTop: 12,
   },
+  archivedHabitCard: {
+    opacity: 0.6,
+  },
   completedListAnimated: {
     marginTop: 12,
   },
@@ -1404,6 +2052,41 @@ const styles = StyleSheet.create({
     left: 0,
     right: 0,
   },
+  amountStepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    zIndex: 2,
+  },
+  amountButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#F0F8F7',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  amountButtonText: {
+    fontSize: 18,
+    color: '#8BBFB8',
+    fontWeight: '700',
+  },
+  amountButtonTextDisabled: {
+    color: '#D5E3E1',
+  },
+  amountText: {
+    fontSize: 13,
+    color: '#4F7F77',
+    fontWeight: '600',
+    minWidth: 56,
+    textAlign: 'center',
+  },
+  amountTextCompleted: {
+    fontSize: 13,
+    color: '#999',
+    fontWeight: '500',
+    zIndex: 2,
+  },
   swipeHint: {
     backgroundColor: '#F0F8F7',
     paddingHorizontal: 12,
@@ -1428,11 +2111,56 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     paddingLeft: 24,
   },
+  skipBackground: {
+    backgroundColor: '#B8C4C2',
+    alignItems: 'flex-end',
+    paddingLeft: 0,
+    paddingRight: 24,
+  },
+  skipBackgroundText: {
+    fontSize: 16,
+    color: '#FFF',
+    fontWeight: '700',
+    letterSpacing: 0.5,
+  },
   swipeBackgroundIcon: {
     fontSize: 28,
     color: '#FFF',
     fontWeight: 'bold',
   },
+  undoSnackbar: {
+    position: 'absolute',
+    left: 20,
+    right: 20,
+    bottom: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#4F7F77',
+    borderRadius: 14,
+    paddingVertical: 14,
+    paddingHorizontal: 18,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.15,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  undoSnackbarText: {
+    flex: 1,
+    fontSize: 15,
+    color: '#FFF',
+    marginRight: 12,
+  },
+  undoSnackbarAction: {
+    marginRight: 18,
+  },
+  undoSnackbarButton: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#F0F8F7',
+    letterSpacing: 0.5,
+  },
   bottomTabBar: {
     flexDirection: 'row',
     backgroundColor: '#FFF',
@@ -1476,16 +2204,50 @@ const styles = StyleSheet.create({
   weeklyContainer: {
     flex: 1,
   },
+  weekNavigator: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    marginBottom: 20,
+  },
+  weekNavArrow: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#FFF',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  weekNavArrowText: {
+    fontSize: 24,
+    color: '#4F7F77',
+  },
+  weekNavCenter: {
+    alignItems: 'center',
+  },
+  weekNavTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#4F7F77',
+  },
+  weekNavSubtitle: {
+    marginTop: 2,
+    fontSize: 12,
+    color: '#888',
+  },
   scheduleTypeSelector: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     paddingHorizontal: 20,
     gap: 8,
     marginBottom: 20,
   },
   scheduleTypeButton: {
-    flex: 1,
+    flexGrow: 1,
+    minWidth: '30%',
     paddingVertical: 10,
-    paddingHorizontal: 16,
+    paddingHorizontal: 8,
     backgroundColor: '#FFF',
     borderRadius: 12,
     alignItems: 'center',
@@ -1745,35 +2507,31 @@ const styles = StyleSheet.create({
     color: '#8BBFB8',
     fontWeight: '600',
   },
-  debugButtonRow: {
+  headerButtonRow: {
     flexDirection: 'row',
     marginTop: 8,
     gap: 8,
   },
-  debugSkipButton: {
-    backgroundColor: '#FFE4B5',
+  backToTodayChip: {
+    backgroundColor: '#8BBFB8',
     paddingHorizontal: 12,
     paddingVertical: 6,
     borderRadius: 8,
-    borderWidth: 1,
-    borderColor: '#DEB887',
   },
-  debugSkipButtonText: {
+  backToTodayChipText: {
     fontSize: 12,
-    color: '#8B4513',
+    color: '#FFF',
     fontWeight: '600',
   },
-  debugResetButton: {
-    backgroundColor: '#E8E8E8',
+  settingsButton: {
+    backgroundColor: '#F0F8F7',
     paddingHorizontal: 12,
     paddingVertical: 6,
     borderRadius: 8,
-    borderWidth: 1,
-    borderColor: '#CCC',
   },
-  debugResetButtonText: {
+  settingsButtonText: {
     fontSize: 12,
-    color: '#666',
+    color: '#4F7F77',
     fontWeight: '600',
   },
 });
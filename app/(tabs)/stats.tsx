@@ -0,0 +1,486 @@
+import { ENERGY_OPTIONS, getRatingEmoji, MOOD_OPTIONS } from '@/components/journal-card';
+import { RatingOption } from '@/components/modals/rating-picker';
+import { useCompletionStats, useHabitStats, useJournalStats } from '@/hooks/use-habits';
+import { OccurrenceTally } from '@/types/habit';
+import { useFocusEffect, useRouter } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+const PERIODS = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: '1 year' },
+];
+
+const JOURNAL_RATINGS: { label: string; options: RatingOption[]; key: 'mood' | 'energy' }[] = [
+  { label: 'Mood', options: MOOD_OPTIONS, key: 'mood' },
+  { label: 'Energy', options: ENERGY_OPTIONS, key: 'energy' },
+];
+
+const WEEKDAY_LABELS = ['M', 'T', 'W', 'T', 'F', 'S', 'S'];
+
+// Percentage of scheduled occurrences done, or null when nothing was scheduled
+const getRate = (tally: OccurrenceTally) =>
+  tally.scheduled > 0 ? Math.round((tally.completed / tally.scheduled) * 100) : null;
+
+const sumTallies = (tallies: OccurrenceTally[]): OccurrenceTally => ({
+  scheduled: tallies.reduce((sum, tally) => sum + tally.scheduled, 0),
+  completed: tallies.reduce((sum, tally) => sum + tally.completed, 0),
+});
+
+// Average rating with its emoji, e.g. "🙂 3.8", or a dash when nothing was rated
+const formatAverage = (options: RatingOption[], value?: number) =>
+  value === undefined ? '–' : `${getRatingEmoji(options, value)} ${value.toFixed(1)}`;
+
+// Change in percentage points against the previous period, when both periods had something due
+function Trend({ current, previous }: { current: OccurrenceTally; previous: OccurrenceTally }) {
+  const currentRate = getRate(current);
+  const previousRate = getRate(previous);
+  if (currentRate === null || previousRate === null) {
+    return <Text style={styles.trendFlat}>–</Text>;
+  }
+  const change = currentRate - previousRate;
+  if (change === 0) {
+    return <Text style={styles.trendFlat}>±0%</Text>;
+  }
+  return (
+    <Text style={change > 0 ? styles.trendUp : styles.trendDown}>
+      {change > 0 ? '▲' : '▼'} {Math.abs(change)}%
+    </Text>
+  );
+}
+
+export default function StatsScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const [days, setDays] = useState(30);
+  const { habitRates, weekdayRates, refresh } = useCompletionStats(days);
+  const { totalCompletions, dailyStreak, refresh: refreshStats } = useHabitStats();
+  const { stats: journalStats, refresh: refreshJournal } = useJournalStats(days);
+
+  // Completions may have changed on the Today screen
+  useFocusEffect(
+    useCallback(() => {
+      refresh();
+      refreshStats();
+      refreshJournal();
+    }, [refresh, refreshStats, refreshJournal])
+  );
+
+  const overall = sumTallies(habitRates.map((rate) => rate.current));
+  const overallPrevious = sumTallies(habitRates.map((rate) => rate.previous));
+  const overallRate = getRate(overall);
+  const periodLabel = PERIODS.find((period) => period.days === days)?.label ?? `${days} days`;
+
+  // Rates come most consistent first; habits with nothing due this period can't be ranked
+  const ranked = habitRates.filter((rate) => rate.current.scheduled > 0);
+  const mostConsistent = ranked[0];
+  const leastConsistent = ranked.length > 1 ? ranked[ranked.length - 1] : undefined;
+
+  const weekdayPercentages = weekdayRates.map(getRate);
+  const bestWeekday = Math.max(...weekdayPercentages.map((rate) => rate ?? -1));
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <ScrollView contentContainerStyle={[styles.scrollContent, { paddingBottom: insets.bottom + 40 }]}>
+        {/* Header */}
+        <View style={styles.header}>
+          <Text style={styles.headerLogo}>stats</Text>
+          <TouchableOpacity style={styles.todayLink} onPress={() => router.navigate('/')} activeOpacity={0.7}>
+            <Text style={styles.todayLinkText}>‹ Today</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Period Selector */}
+        <View style={styles.periodRow}>
+          {PERIODS.map((period) => (
+            <TouchableOpacity
+              key={period.days}
+              style={[styles.periodChip, days === period.days && styles.periodChipActive]}
+              onPress={() => setDays(period.days)}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.periodChipText, days === period.days && styles.periodChipTextActive]}>
+                {period.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {/* Overview */}
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>Completion rate</Text>
+          <View style={styles.overviewRow}>
+            <Text style={styles.overviewValue}>{overallRate === null ? '–' : `${overallRate}%`}</Text>
+            <Trend current={overall} previous={overallPrevious} />
+          </View>
+          <Text style={styles.overviewHint}>
+            {overall.completed} of {overall.scheduled} scheduled in the last {periodLabel}, compared with the{' '}
+            {periodLabel} before
+          </Text>
+        </View>
+
+        <View style={styles.summaryRow}>
+          <View style={styles.summaryBox}>
+            <Text style={styles.summaryValue}>{totalCompletions}</Text>
+            <Text style={styles.summaryLabel}>All-time completions</Text>
+          </View>
+          <View style={styles.summaryBox}>
+            <Text style={styles.summaryValue}>{dailyStreak}</Text>
+            <Text style={styles.summaryLabel}>Day streak</Text>
+          </View>
+        </View>
+
+        {/* By Weekday */}
+        <View style={[styles.card, styles.cardSpacing]}>
+          <Text style={styles.sectionTitle}>By weekday</Text>
+          <View style={styles.weekdayChart}>
+            {WEEKDAY_LABELS.map((label, index) => {
+              const rate = weekdayPercentages[index] ?? null;
+              return (
+                <View key={index} style={styles.weekdayColumn}>
+                  <Text style={styles.weekdayRate}>{rate === null ? '–' : `${rate}%`}</Text>
+                  <View style={styles.weekdayTrack}>
+                    <View
+                      style={[
+                        styles.weekdayBar,
+                        { height: `${rate ?? 0}%` },
+                        rate !== null && rate === bestWeekday && styles.weekdayBarBest,
+                      ]}
+                    />
+                  </View>
+                  <Text style={styles.weekdayLabel}>{label}</Text>
+                </View>
+              );
+            })}
+          </View>
+        </View>
+
+        {/* Mood & Energy - journal ratings on perfect days against the rest */}
+        <View style={[styles.card, styles.cardSpacing]}>
+          <Text style={styles.sectionTitle}>Mood & energy</Text>
+          {!journalStats || journalStats.perfectDays.days + journalStats.otherDays.days === 0 ? (
+            <Text style={styles.emptyText}>No journal entries in the last {periodLabel}.</Text>
+          ) : (
+            <>
+              <View style={styles.journalRow}>
+                <View style={styles.journalLabelColumn} />
+                <Text style={styles.journalHeading}>All done</Text>
+                <Text style={styles.journalHeading}>Missed some</Text>
+              </View>
+              {JOURNAL_RATINGS.map(({ label, options, key }) => (
+                <View key={key} style={styles.journalRow}>
+                  <Text style={[styles.journalLabelColumn, styles.journalLabel]}>{label}</Text>
+                  <Text style={styles.journalValue}>{formatAverage(options, journalStats.perfectDays[key])}</Text>
+                  <Text style={styles.journalValue}>{formatAverage(options, journalStats.otherDays[key])}</Text>
+                </View>
+              ))}
+              <Text style={styles.overviewHint}>
+                From {journalStats.perfectDays.days} journaled{' '}
+                {journalStats.perfectDays.days === 1 ? 'day' : 'days'} with every habit done and{' '}
+                {journalStats.otherDays.days} with something left undone.
+              </Text>
+            </>
+          )}
+        </View>
+
+        {/* Most / Least Consistent */}
+        {mostConsistent && (
+          <View style={styles.summaryRow}>
+            <View style={styles.summaryBox}>
+              <Text style={styles.summaryLabel}>Most consistent</Text>
+              <Text style={styles.consistentName} numberOfLines={1}>{mostConsistent.name}</Text>
+              <Text style={styles.consistentRate}>{getRate(mostConsistent.current)}%</Text>
+            </View>
+            {leastConsistent && (
+              <View style={styles.summaryBox}>
+                <Text style={styles.summaryLabel}>Least consistent</Text>
+                <Text style={styles.consistentName} numberOfLines={1}>{leastConsistent.name}</Text>
+                <Text style={styles.consistentRate}>{getRate(leastConsistent.current)}%</Text>
+              </View>
+            )}
+          </View>
+        )}
+
+        {/* Per Habit */}
+        <View style={[styles.card, styles.cardSpacing]}>
+          <Text style={styles.sectionTitle}>By habit</Text>
+          {habitRates.length === 0 ? (
+            <Text style={styles.emptyText}>Nothing was scheduled in the last {periodLabel}.</Text>
+          ) : (
+            habitRates.map((rate) => {
+              const percentage = getRate(rate.current);
+              return (
+                <View key={rate.habitId} style={styles.habitRow}>
+                  <View style={styles.habitInfo}>
+                    <Text style={styles.habitName} numberOfLines={1}>{rate.name}</Text>
+                    <Text style={styles.habitCount}>
+                      {rate.current.completed} of {rate.current.scheduled} done
+                    </Text>
+                    <View style={styles.habitTrack}>
+                      <View style={[styles.habitBar, { width: `${percentage ?? 0}%` }]} />
+                    </View>
+                  </View>
+                  <View style={styles.habitRateColumn}>
+                    <Text style={styles.habitRate}>{percentage === null ? '–' : `${percentage}%`}</Text>
+                    <Trend current={rate.current} previous={rate.previous} />
+                  </View>
+                </View>
+              );
+            })
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8F9FD',
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    justifyContent: 'space-between',
+    paddingTop: 60,
+    paddingBottom: 20,
+  },
+  headerLogo: {
+    fontSize: 36,
+    fontWeight: '800',
+    color: '#8BBFB8',
+    letterSpacing: -0.5,
+  },
+  todayLink: {
+    backgroundColor: '#F0F8F7',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+  todayLinkText: {
+    fontSize: 12,
+    color: '#4F7F77',
+    fontWeight: '600',
+  },
+  periodRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  periodChip: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 12,
+    backgroundColor: '#FFF',
+    alignItems: 'center',
+  },
+  periodChipActive: {
+    backgroundColor: '#8BBFB8',
+  },
+  periodChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#4F7F77',
+  },
+  periodChipTextActive: {
+    color: '#FFF',
+  },
+  card: {
+    backgroundColor: '#FFF',
+    borderRadius: 20,
+    padding: 16,
+    shadowColor: '#8BBFB8',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.06,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  cardSpacing: {
+    marginTop: 16,
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#4F7F77',
+    marginBottom: 12,
+  },
+  overviewRow: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    gap: 12,
+  },
+  overviewValue: {
+    fontSize: 40,
+    fontWeight: '800',
+    color: '#4F7F77',
+  },
+  overviewHint: {
+    marginTop: 4,
+    fontSize: 13,
+    color: '#888',
+  },
+  trendUp: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#4F7F77',
+  },
+  trendDown: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#E57373',
+  },
+  trendFlat: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#999',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  summaryBox: {
+    flex: 1,
+    backgroundColor: '#FFF',
+    borderRadius: 16,
+    padding: 16,
+    alignItems: 'center',
+  },
+  summaryValue: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#4F7F77',
+  },
+  summaryLabel: {
+    marginTop: 4,
+    fontSize: 13,
+    color: '#888',
+  },
+  consistentName: {
+    marginTop: 8,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  consistentRate: {
+    marginTop: 2,
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#4F7F77',
+  },
+  weekdayChart: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  weekdayColumn: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  weekdayRate: {
+    fontSize: 10,
+    color: '#888',
+    marginBottom: 4,
+  },
+  weekdayTrack: {
+    width: 18,
+    height: 100,
+    borderRadius: 9,
+    backgroundColor: '#EEF1F0',
+    justifyContent: 'flex-end',
+    overflow: 'hidden',
+  },
+  weekdayBar: {
+    width: '100%',
+    borderRadius: 9,
+    backgroundColor: '#8BBFB8',
+  },
+  weekdayBarBest: {
+    backgroundColor: '#4F7F77',
+  },
+  weekdayLabel: {
+    marginTop: 6,
+    fontSize: 12,
+    color: '#999',
+    fontWeight: '500',
+  },
+  journalRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  journalLabelColumn: {
+    width: 64,
+  },
+  journalLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  journalHeading: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 12,
+    color: '#999',
+    fontWeight: '500',
+  },
+  journalValue: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#4F7F77',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#888',
+  },
+  habitRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#F0F2F1',
+  },
+  habitInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  habitName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  habitCount: {
+    marginTop: 2,
+    fontSize: 12,
+    color: '#999',
+  },
+  habitTrack: {
+    marginTop: 6,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#EEF1F0',
+    overflow: 'hidden',
+  },
+  habitBar: {
+    height: '100%',
+    borderRadius: 3,
+    backgroundColor: '#8BBFB8',
+  },
+  habitRateColumn: {
+    alignItems: 'flex-end',
+    minWidth: 56,
+  },
+  habitRate: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#4F7F77',
+  },
+});
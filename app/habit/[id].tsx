@@ -0,0 +1,357 @@
+import { StrengthChart, StrengthRing } from '@/components/habit-strength';
+import { describeMonthlySchedule } from '@/components/modals/monthly-picker';
+import { formatDateString, parseDateString } from '@/database/database';
+import { describeRRule, parseRRule } from '@/database/rrule';
+import { addDays } from '@/database/schedule';
+import { useHabitDetails, useHabitStats, useHabitStrength } from '@/hooks/use-habits';
+import { HabitWithDays } from '@/types/habit';
+import { useFocusEffect, useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useCallback } from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// One line describing when the habit is due, e.g. "Every 3 days" or "Mon, Wed, Fri"
+function describeSchedule(habit: HabitWithDays): string {
+  if (habit.oneTimeDate) return 'Just once';
+  switch (habit.scheduleType) {
+    case 'daily':
+      return 'Every day';
+    case 'custom':
+      // Monday first, like the rest of the app
+      return [...habit.days]
+        .sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7))
+        .map((day) => DAY_LABELS[day])
+        .join(', ');
+    case 'interval':
+      return habit.intervalDays === 1 ? 'Every day' : `Every ${habit.intervalDays} days`;
+    case 'weekly':
+      return `${habit.weeklyTarget} ${habit.weeklyTarget === 1 ? 'time' : 'times'} a week`;
+    case 'monthly':
+      return describeMonthlySchedule(habit);
+    case 'rrule':
+      try {
+        return habit.rrule ? describeRRule(parseRRule(habit.rrule)) : '';
+      } catch {
+        return habit.rrule ?? '';
+      }
+  }
+}
+
+const formatDay = (date: string) =>
+  parseDateString(date).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+// Read-only overview of a single habit; editing happens in the edit and history modals
+export default function HabitDetailScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const params = useLocalSearchParams<{ id: string }>();
+  const habitId = params.id;
+  const today = formatDateString(new Date());
+
+  const { habit, completionRate, recentCompletions, upcomingDates, isLoading, refresh } = useHabitDetails(habitId);
+  const { streak, bestStreak, refresh: refreshStats } = useHabitStats(habitId);
+  const { score, history, refresh: refreshStrength } = useHabitStrength(habitId);
+
+  // The habit may have been edited, or its history changed, in a modal
+  useFocusEffect(
+    useCallback(() => {
+      refresh();
+      refreshStats();
+      refreshStrength();
+    }, [refresh, refreshStats, refreshStrength])
+  );
+
+  const describeUpcoming = (date: string) => {
+    if (date < today) return `${formatDay(date)} (overdue)`;
+    if (date === today) return 'Today';
+    if (date === addDays(today, 1)) return 'Tomorrow';
+    return formatDay(date);
+  };
+
+  const rate = completionRate && completionRate.current.scheduled > 0
+    ? Math.round((completionRate.current.completed / completionRate.current.scheduled) * 100)
+    : null;
+
+  if (!habit) {
+    return (
+      <View style={[styles.container, styles.centered, { paddingTop: insets.top }]}>
+        <Text style={styles.emptyText}>{isLoading ? '' : 'This habit no longer exists.'}</Text>
+        <TouchableOpacity style={styles.backLink} onPress={() => router.back()} activeOpacity={0.7}>
+          <Text style={styles.backLinkText}>‹ Back</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <ScrollView contentContainerStyle={[styles.scrollContent, { paddingBottom: insets.bottom + 40 }]}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backLink} onPress={() => router.back()} activeOpacity={0.7}>
+            <Text style={styles.backLinkText}>‹ Back</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.editButton}
+            onPress={() => router.push(`/modal/edit-habit?habitId=${habitId}`)}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.editButtonText}>Edit</Text>
+          </TouchableOpacity>
+        </View>
+
+        <Text style={styles.habitName}>{habit.name}</Text>
+        <Text style={styles.schedule}>
+          {describeSchedule(habit)}
+          {habit.kind === 'measurable' && ` · ${habit.targetValue} ${habit.unit ?? ''}`.trimEnd()}
+        </Text>
+        <Text style={styles.scheduleDates}>
+          Since {formatDay(habit.startDate)}
+          {habit.endDate && ` · until ${formatDay(habit.endDate)}`}
+          {habit.archivedDate && ` · archived ${formatDay(habit.archivedDate)}`}
+        </Text>
+
+        {/* Strength and Streaks */}
+        <View style={styles.summaryRow}>
+          <View style={styles.summaryBox}>
+            <StrengthRing score={score} size={64} />
+            <Text style={styles.summaryLabel}>Strength</Text>
+          </View>
+          <View style={styles.summaryBox}>
+            <Text style={styles.summaryValue}>{streak}</Text>
+            <Text style={styles.summaryLabel}>Current streak</Text>
+          </View>
+          <View style={styles.summaryBox}>
+            <Text style={styles.summaryValue}>{bestStreak}</Text>
+            <Text style={styles.summaryLabel}>Best streak</Text>
+          </View>
+        </View>
+
+        {/* Completion Rate */}
+        <View style={[styles.card, styles.cardSpacing]}>
+          <Text style={styles.sectionTitle}>Last 30 days</Text>
+          <Text style={styles.rateValue}>{rate === null ? '–' : `${rate}%`}</Text>
+          <Text style={styles.hintText}>
+            {completionRate && completionRate.current.scheduled > 0
+              ? `${completionRate.current.completed} of ${completionRate.current.scheduled} scheduled occurrences done`
+              : 'Nothing was scheduled in the last 30 days'}
+          </Text>
+        </View>
+
+        {/* Strength History */}
+        <View style={[styles.card, styles.cardSpacing]}>
+          <Text style={styles.sectionTitle}>Strength over time</Text>
+          <StrengthChart history={history} />
+        </View>
+
+        {/* Next Due Dates */}
+        <View style={[styles.card, styles.cardSpacing]}>
+          <Text style={styles.sectionTitle}>Coming up</Text>
+          {habit.scheduleType === 'weekly' ? (
+            <Text style={styles.hintText}>{describeSchedule(habit)}, on any days</Text>
+          ) : upcomingDates.length === 0 ? (
+            <Text style={styles.hintText}>Not due again</Text>
+          ) : (
+            upcomingDates.map((date, index) => (
+              <View key={`${date}-${index}`} style={styles.listRow}>
+                <Text style={[styles.listText, date < today && styles.listTextOverdue]}>
+                  {describeUpcoming(date)}
+                </Text>
+              </View>
+            ))
+          )}
+        </View>
+
+        {/* Recent Completions */}
+        <View style={[styles.card, styles.cardSpacing]}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Recent completions</Text>
+            <TouchableOpacity
+              onPress={() => router.push(`/modal/habit-history?habitId=${habitId}`)}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.sectionLink}>Full history ›</Text>
+            </TouchableOpacity>
+          </View>
+          {recentCompletions.length === 0 ? (
+            <Text style={styles.hintText}>Not done yet</Text>
+          ) : (
+            recentCompletions.map((completion) => (
+              <View key={completion.date} style={styles.completionRow}>
+                <View style={styles.completionHeader}>
+                  <Text style={styles.listText}>{formatDay(completion.date)}</Text>
+                  {completion.value !== undefined && (
+                    <Text style={styles.listValue}>
+                      {completion.value} {habit.unit ?? ''}
+                    </Text>
+                  )}
+                </View>
+                {!!completion.note && <Text style={styles.completionNote}>{completion.note}</Text>}
+              </View>
+            ))
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8F9FD',
+  },
+  centered: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 16,
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 20,
+    paddingBottom: 20,
+  },
+  backLink: {
+    backgroundColor: '#F0F8F7',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+  backLinkText: {
+    fontSize: 12,
+    color: '#4F7F77',
+    fontWeight: '600',
+  },
+  editButton: {
+    backgroundColor: '#8BBFB8',
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+  editButtonText: {
+    fontSize: 13,
+    color: '#FFF',
+    fontWeight: '600',
+  },
+  habitName: {
+    fontSize: 32,
+    fontWeight: '800',
+    color: '#4F7F77',
+    letterSpacing: -0.5,
+  },
+  schedule: {
+    marginTop: 4,
+    fontSize: 16,
+    color: '#333',
+  },
+  scheduleDates: {
+    marginTop: 4,
+    fontSize: 13,
+    color: '#999',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 20,
+  },
+  summaryBox: {
+    flex: 1,
+    backgroundColor: '#FFF',
+    borderRadius: 16,
+    padding: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  summaryValue: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#4F7F77',
+  },
+  summaryLabel: {
+    marginTop: 4,
+    fontSize: 13,
+    color: '#888',
+  },
+  card: {
+    backgroundColor: '#FFF',
+    borderRadius: 20,
+    padding: 16,
+    shadowColor: '#8BBFB8',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.06,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  cardSpacing: {
+    marginTop: 16,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#4F7F77',
+    marginBottom: 12,
+  },
+  sectionLink: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#8BBFB8',
+  },
+  rateValue: {
+    fontSize: 40,
+    fontWeight: '800',
+    color: '#4F7F77',
+  },
+  hintText: {
+    fontSize: 13,
+    color: '#888',
+  },
+  listRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#F0F2F1',
+  },
+  completionRow: {
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#F0F2F1',
+  },
+  completionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  completionNote: {
+    marginTop: 2,
+    fontSize: 13,
+    color: '#4F7F77',
+  },
+  listText: {
+    fontSize: 15,
+    color: '#333',
+  },
+  listTextOverdue: {
+    color: '#E57373',
+  },
+  listValue: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#4F7F77',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#888',
+  },
+});
@@ -2,14 +2,22 @@ import React, { useState } from 'react';
 import { View, Text, TextInput, StyleSheet } from 'react-native';
 import { useRouter } from 'expo-router';
 import { ModalContainer } from '@/components/modals/modal-container';
+import { TargetPicker } from '@/components/modals/target-picker';
+import { DateRangePicker } from '@/components/modals/date-range-picker';
 import { DayPicker } from '@/components/modals/day-picker';
 import { useDatabase } from '@/context/database-context';
 import { createHabit } from '@/database/habit-repository';
+import { formatDateString } from '@/database/database';
 
 export default function AddCustomHabitModal() {
   const router = useRouter();
   const { db } = useDatabase();
   const [name, setName] = useState('');
+  const [isMeasurable, setIsMeasurable] = useState(false);
+  const [targetValue, setTargetValue] = useState(1);
+  const [unit, setUnit] = useState('');
+  const [startDate, setStartDate] = useState(() => formatDateString(new Date()));
+  const [endDate, setEndDate] = useState<string | undefined>();
   const [selectedDays, setSelectedDays] = useState<number[]>([]);
 
   const handleSave = async () => {
@@ -19,6 +27,11 @@ export default function AddCustomHabitModal() {
       name: name.trim(),
       scheduleType: 'custom',
       days: selectedDays,
+      startDate,
+      endDate,
+      kind: isMeasurable ? 'measurable' : 'boolean',
+      targetValue,
+      unit,
     });
 
     router.back();
@@ -43,6 +56,22 @@ export default function AddCustomHabitModal() {
       </View>
 
       <DayPicker selectedDays={selectedDays} onDaysChange={setSelectedDays} />
+
+      <DateRangePicker
+        startDate={startDate}
+        onStartDateChange={setStartDate}
+        endDate={endDate}
+        onEndDateChange={setEndDate}
+      />
+
+      <TargetPicker
+        isMeasurable={isMeasurable}
+        onMeasurableChange={setIsMeasurable}
+        targetValue={targetValue}
+        onTargetChange={setTargetValue}
+        unit={unit}
+        onUnitChange={setUnit}
+      />
     </ModalContainer>
   );
 }
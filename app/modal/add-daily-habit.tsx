@@ -2,13 +2,21 @@ import React, { useState } from 'react';
 import { View, Text, TextInput, StyleSheet } from 'react-native';
 import { useRouter } from 'expo-router';
 import { ModalContainer } from '@/components/modals/modal-container';
+import { TargetPicker } from '@/components/modals/target-picker';
+import { DateRangePicker } from '@/components/modals/date-range-picker';
 import { useDatabase } from '@/context/database-context';
 import { createHabit } from '@/database/habit-repository';
+import { formatDateString } from '@/database/database';
 
 export default function AddDailyHabitModal() {
   const router = useRouter();
   const { db } = useDatabase();
   const [name, setName] = useState('');
+  const [isMeasurable, setIsMeasurable] = useState(false);
+  const [targetValue, setTargetValue] = useState(1);
+  const [unit, setUnit] = useState('');
+  const [startDate, setStartDate] = useState(() => formatDateString(new Date()));
+  const [endDate, setEndDate] = useState<string | undefined>();
 
   const handleSave = async () => {
     if (!db || !name.trim()) return;
@@ -16,6 +24,11 @@ export default function AddDailyHabitModal() {
     await createHabit(db, {
       name: name.trim(),
       scheduleType: 'daily',
+      startDate,
+      endDate,
+      kind: isMeasurable ? 'measurable' : 'boolean',
+      targetValue,
+      unit,
     });
 
     router.back();
@@ -41,6 +54,22 @@ export default function AddDailyHabitModal() {
           This habit will appear every day
         </Text>
       </View>
+
+      <DateRangePicker
+        startDate={startDate}
+        onStartDateChange={setStartDate}
+        endDate={endDate}
+        onEndDateChange={setEndDate}
+      />
+
+      <TargetPicker
+        isMeasurable={isMeasurable}
+        onMeasurableChange={setIsMeasurable}
+        targetValue={targetValue}
+        onTargetChange={setTargetValue}
+        unit={unit}
+        onUnitChange={setUnit}
+      />
     </ModalContainer>
   );
 }
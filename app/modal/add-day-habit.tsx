@@ -2,8 +2,11 @@ import React, { useState } from 'react';
 import { View, Text, TextInput, StyleSheet } from 'react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { ModalContainer } from '@/components/modals/modal-container';
+import { TargetPicker } from '@/components/modals/target-picker';
+import { DateRangePicker } from '@/components/modals/date-range-picker';
 import { useDatabase } from '@/context/database-context';
 import { createHabit } from '@/database/habit-repository';
+import { formatDateString } from '@/database/database';
 
 const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
 
@@ -13,6 +16,11 @@ export default function AddDayHabitModal() {
   const params = useLocalSearchParams<{ day: string }>();
   const dayIndex = parseInt(params.day || '0', 10);
   const [name, setName] = useState('');
+  const [isMeasurable, setIsMeasurable] = useState(false);
+  const [targetValue, setTargetValue] = useState(1);
+  const [unit, setUnit] = useState('');
+  const [startDate, setStartDate] = useState(() => formatDateString(new Date()));
+  const [endDate, setEndDate] = useState<string | undefined>();
 
   const handleSave = async () => {
     if (!db || !name.trim()) return;
@@ -21,6 +29,11 @@ export default function AddDayHabitModal() {
       name: name.trim(),
       scheduleType: 'custom',
       days: [dayIndex],
+      startDate,
+      endDate,
+      kind: isMeasurable ? 'measurable' : 'boolean',
+      targetValue,
+      unit,
     });
 
     router.back();
@@ -46,6 +59,22 @@ export default function AddDayHabitModal() {
           This habit will appear every {DAY_NAMES[dayIndex]}
         </Text>
       </View>
+
+      <DateRangePicker
+        startDate={startDate}
+        onStartDateChange={setStartDate}
+        endDate={endDate}
+        onEndDateChange={setEndDate}
+      />
+
+      <TargetPicker
+        isMeasurable={isMeasurable}
+        onMeasurableChange={setIsMeasurable}
+        targetValue={targetValue}
+        onTargetChange={setTargetValue}
+        unit={unit}
+        onUnitChange={setUnit}
+      />
     </ModalContainer>
   );
 }
@@ -2,18 +2,22 @@ import React, { useMemo, useState } from 'react';
 import { View, Text, TextInput, StyleSheet, TouchableOpacity } from 'react-native';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { ModalContainer } from '@/components/modals/modal-container';
+import { TargetPicker } from '@/components/modals/target-picker';
 import { IntervalPicker } from '@/components/modals/interval-picker';
+import { DateRangePicker } from '@/components/modals/date-range-picker';
 import { useDatabase } from '@/context/database-context';
 import { createHabit } from '@/database/habit-repository';
-import { formatDateString } from '@/database/database';
+import { formatDateString, parseDateString } from '@/database/database';
 
 export default function AddIntervalHabitModal() {
   const router = useRouter();
   const { db } = useDatabase();
   const params = useLocalSearchParams<{ date?: string }>();
   const [name, setName] = useState('');
+  const [isMeasurable, setIsMeasurable] = useState(false);
+  const [targetValue, setTargetValue] = useState(1);
+  const [unit, setUnit] = useState('');
   const [intervalDays, setIntervalDays] = useState(3);
-  const [startToday, setStartToday] = useState(true);
   const [rescheduleIfMissed, setRescheduleIfMissed] = useState(false);
   const referenceDate = useMemo(() => {
     const dateParam = typeof params.date === 'string' ? params.date : undefined;
@@ -22,27 +26,29 @@ export default function AddIntervalHabitModal() {
     if (!year || !month || !day) return new Date();
     return new Date(year, month - 1, day);
   }, [params.date]);
+  const [startDate, setStartDate] = useState(() => formatDateString(referenceDate));
+  const [endDate, setEndDate] = useState<string | undefined>();
+
+  // Start after one interval instead of on the reference day
+  const startAfterInterval = () => {
+    const futureDate = new Date(referenceDate);
+    futureDate.setDate(futureDate.getDate() + intervalDays);
+    setStartDate(formatDateString(futureDate));
+  };
 
   const handleSave = async () => {
     if (!db || !name.trim()) return;
 
-    // Calculate start date based on checkbox
-    let startDate: string;
-    if (startToday) {
-      startDate = formatDateString(referenceDate);
-    } else {
-      // Start after the interval period
-      const futureDate = new Date(referenceDate);
-      futureDate.setDate(futureDate.getDate() + intervalDays);
-      startDate = formatDateString(futureDate);
-    }
-
     await createHabit(db, {
       name: name.trim(),
       scheduleType: 'interval',
       intervalDays,
       startDate,
+      endDate,
       rescheduleIfMissed,
+      kind: isMeasurable ? 'measurable' : 'boolean',
+      targetValue,
+      unit,
     });
 
     router.back();
@@ -68,24 +74,29 @@ export default function AddIntervalHabitModal() {
 
       <IntervalPicker intervalDays={intervalDays} onIntervalChange={setIntervalDays} />
 
-      {/* Start Today Checkbox */}
-      <TouchableOpacity
-        style={styles.checkboxRow}
-        onPress={() => setStartToday(!startToday)}
-        activeOpacity={0.7}
-      >
-        <View style={[styles.checkbox, startToday && styles.checkboxChecked]}>
-          {startToday && <Text style={styles.checkmark}>✓</Text>}
-        </View>
-        <View style={styles.checkboxTextContainer}>
-          <Text style={styles.checkboxLabel}>Start Today?</Text>
-          <Text style={styles.checkboxHint}>
-            {startToday
-              ? `This habit will appear on ${referenceDate.toLocaleDateString('en-US', { weekday: 'long' })}`
-              : `This habit will start in ${intervalDays} days`}
-          </Text>
-        </View>
-      </TouchableOpacity>
+      {/* Active Dates - an interval habit is first due on its start date */}
+      <DateRangePicker
+        startDate={startDate}
+        onStartDateChange={setStartDate}
+        endDate={endDate}
+        onEndDateChange={setEndDate}
+        startHint={`This habit will first appear on ${parseDateString(startDate).toLocaleDateString('en-US', {
+          weekday: 'long',
+          month: 'short',
+          day: 'numeric',
+        })}`}
+      />
+      <View style={styles.startOptions}>
+        <TouchableOpacity
+          style={[styles.startOption, startDate === formatDateString(referenceDate) && styles.startOptionSelected]}
+          onPress={() => setStartDate(formatDateString(referenceDate))}
+        >
+          <Text style={styles.startOptionText}>Start today</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.startOption} onPress={startAfterInterval}>
+          <Text style={styles.startOptionText}>Start in {intervalDays} days</Text>
+        </TouchableOpacity>
+      </View>
 
       {/* Reschedule if Missed Checkbox */}
       <TouchableOpacity
@@ -105,6 +116,15 @@ export default function AddIntervalHabitModal() {
           </Text>
         </View>
       </TouchableOpacity>
+
+      <TargetPicker
+        isMeasurable={isMeasurable}
+        onMeasurableChange={setIsMeasurable}
+        targetValue={targetValue}
+        onTargetChange={setTargetValue}
+        unit={unit}
+        onUnitChange={setUnit}
+      />
     </ModalContainer>
   );
 }
@@ -124,6 +144,26 @@ const styles = StyleSheet.create({
     fontSize: 17,
     color: '#fff',
   },
+  startOptions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  startOption: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  startOptionSelected: {
+    borderColor: '#4CAF50',
+  },
+  startOptionText: {
+    fontSize: 13,
+    color: '#888',
+  },
   checkboxRow: {
     flexDirection: 'row',
     alignItems: 'flex-start',
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, StyleSheet } from 'react-native';
+import { useRouter } from 'expo-router';
+import { ModalContainer } from '@/components/modals/modal-container';
+import { TargetPicker } from '@/components/modals/target-picker';
+import { DateRangePicker } from '@/components/modals/date-range-picker';
+import { MonthlyMode, MonthlyPicker } from '@/components/modals/monthly-picker';
+import { useDatabase } from '@/context/database-context';
+import { createHabit } from '@/database/habit-repository';
+import { formatDateString } from '@/database/database';
+
+export default function AddMonthlyHabitModal() {
+  const router = useRouter();
+  const { db } = useDatabase();
+  const [name, setName] = useState('');
+  const [isMeasurable, setIsMeasurable] = useState(false);
+  const [targetValue, setTargetValue] = useState(1);
+  const [unit, setUnit] = useState('');
+  const [startDate, setStartDate] = useState(() => formatDateString(new Date()));
+  const [endDate, setEndDate] = useState<string | undefined>();
+  const [mode, setMode] = useState<MonthlyMode>('day');
+  const [monthDay, setMonthDay] = useState(1);
+  const [monthWeek, setMonthWeek] = useState(1);
+  const [monthWeekday, setMonthWeekday] = useState(1);
+
+  const handleSave = async () => {
+    if (!db || !name.trim()) return;
+
+    await createHabit(db, {
+      name: name.trim(),
+      scheduleType: 'monthly',
+      ...(mode === 'day' ? { monthDay } : { monthWeek, monthWeekday }),
+      startDate,
+      endDate,
+      kind: isMeasurable ? 'measurable' : 'boolean',
+      targetValue,
+      unit,
+    });
+
+    router.back();
+  };
+
+  return (
+    <ModalContainer
+      title="Add Monthly Habit"
+      onSave={handleSave}
+      saveDisabled={!name.trim()}
+    >
+      <View>
+        <Text style={styles.label}>Habit Name</Text>
+        <TextInput
+          style={styles.input}
+          value={name}
+          onChangeText={setName}
+          placeholder="e.g., Pay rent"
+          placeholderTextColor="#555"
+          autoFocus
+        />
+      </View>
+
+      <MonthlyPicker
+        mode={mode}
+        onModeChange={setMode}
+        monthDay={monthDay}
+        onMonthDayChange={setMonthDay}
+        monthWeek={monthWeek}
+        onMonthWeekChange={setMonthWeek}
+        monthWeekday={monthWeekday}
+        onMonthWeekdayChange={setMonthWeekday}
+      />
+
+      <DateRangePicker
+        startDate={startDate}
+        onStartDateChange={setStartDate}
+        endDate={endDate}
+        onEndDateChange={setEndDate}
+      />
+
+      <TargetPicker
+        isMeasurable={isMeasurable}
+        onMeasurableChange={setIsMeasurable}
+        targetValue={targetValue}
+        onTargetChange={setTargetValue}
+        unit={unit}
+        onUnitChange={setUnit}
+      />
+    </ModalContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: {
+    fontSize: 14,
+    color: '#888',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#333',
+    padding: 16,
+    fontSize: 17,
+    color: '#fff',
+  },
+});
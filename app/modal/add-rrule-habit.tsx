@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, StyleSheet } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { ModalContainer } from '@/components/modals/modal-container';
+import { TargetPicker } from '@/components/modals/target-picker';
+import { DateRangePicker } from '@/components/modals/date-range-picker';
+import { RRuleEditor, validateRRule } from '@/components/modals/rrule-editor';
+import { useDatabase } from '@/context/database-context';
+import { createHabit } from '@/database/habit-repository';
+import { formatDateString } from '@/database/database';
+
+export default function AddRRuleHabitModal() {
+  const router = useRouter();
+  const { db } = useDatabase();
+  const params = useLocalSearchParams<{ date?: string }>();
+  const [name, setName] = useState('');
+  const [isMeasurable, setIsMeasurable] = useState(false);
+  const [targetValue, setTargetValue] = useState(1);
+  const [unit, setUnit] = useState('');
+  const [rrule, setRRule] = useState('FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR');
+  const [startDate, setStartDate] = useState(() =>
+    typeof params.date === 'string' ? params.date : formatDateString(new Date())
+  );
+  const [endDate, setEndDate] = useState<string | undefined>();
+  const isRuleValid = validateRRule(rrule).rule !== null;
+
+  const handleSave = async () => {
+    if (!db || !name.trim() || !isRuleValid) return;
+
+    await createHabit(db, {
+      name: name.trim(),
+      scheduleType: 'rrule',
+      rrule,
+      rruleStart: validateRRule(rrule).rule?.dtstart ?? startDate,
+      startDate,
+      endDate,
+      kind: isMeasurable ? 'measurable' : 'boolean',
+      targetValue,
+      unit,
+    });
+
+    router.back();
+  };
+
+  return (
+    <ModalContainer
+      title="Add Repeating Habit"
+      onSave={handleSave}
+      saveDisabled={!name.trim() || !isRuleValid}
+    >
+      <View>
+        <Text style={styles.label}>Habit Name</Text>
+        <TextInput
+          style={styles.input}
+          value={name}
+          onChangeText={setName}
+          placeholder="e.g., Team standup notes"
+          placeholderTextColor="#555"
+          autoFocus
+        />
+      </View>
+
+      <RRuleEditor rrule={rrule} onRRuleChange={setRRule} startDate={startDate} />
+
+      <DateRangePicker
+        startDate={startDate}
+        onStartDateChange={setStartDate}
+        endDate={endDate}
+        onEndDateChange={setEndDate}
+      />
+
+      <TargetPicker
+        isMeasurable={isMeasurable}
+        onMeasurableChange={setIsMeasurable}
+        targetValue={targetValue}
+        onTargetChange={setTargetValue}
+        unit={unit}
+        onUnitChange={setUnit}
+      />
+    </ModalContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: {
+    fontSize: 14,
+    color: '#888',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#333',
+    padding: 16,
+    fontSize: 17,
+    color: '#fff',
+  },
+});
@@ -2,6 +2,7 @@ import React, { useMemo, useState } from 'react';
 import { View, Text, TextInput, StyleSheet } from 'react-native';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { ModalContainer } from '@/components/modals/modal-container';
+import { TargetPicker } from '@/components/modals/target-picker';
 import { useDatabase } from '@/context/database-context';
 import { createHabit } from '@/database/habit-repository';
 import { formatDateString } from '@/database/database';
@@ -11,6 +12,9 @@ export default function AddTodayHabitModal() {
   const { db } = useDatabase();
   const params = useLocalSearchParams<{ date?: string }>();
   const [name, setName] = useState('');
+  const [isMeasurable, setIsMeasurable] = useState(false);
+  const [targetValue, setTargetValue] = useState(1);
+  const [unit, setUnit] = useState('');
   const targetDate = useMemo(() => {
     const dateParam = typeof params.date === 'string' ? params.date : undefined;
     if (!dateParam) return new Date();
@@ -27,6 +31,9 @@ export default function AddTodayHabitModal() {
       scheduleType: 'custom',
       days: [],
       oneTimeDate: formatDateString(targetDate),
+      kind: isMeasurable ? 'measurable' : 'boolean',
+      targetValue,
+      unit,
     });
 
     router.back();
@@ -52,6 +59,15 @@ export default function AddTodayHabitModal() {
           This habit only appears on {targetDate.toLocaleDateString('en-US', { weekday: 'long' })}.
         </Text>
       </View>
+
+      <TargetPicker
+        isMeasurable={isMeasurable}
+        onMeasurableChange={setIsMeasurable}
+        targetValue={targetValue}
+        onTargetChange={setTargetValue}
+        unit={unit}
+        onUnitChange={setUnit}
+      />
     </ModalContainer>
   );
 }
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, StyleSheet } from 'react-native';
+import { useRouter } from 'expo-router';
+import { ModalContainer } from '@/components/modals/modal-container';
+import { TargetPicker } from '@/components/modals/target-picker';
+import { DateRangePicker } from '@/components/modals/date-range-picker';
+import { WeeklyTargetPicker } from '@/components/modals/weekly-target-picker';
+import { useDatabase } from '@/context/database-context';
+import { createHabit } from '@/database/habit-repository';
+import { formatDateString } from '@/database/database';
+
+export default function AddWeeklyHabitModal() {
+  const router = useRouter();
+  const { db } = useDatabase();
+  const [name, setName] = useState('');
+  const [isMeasurable, setIsMeasurable] = useState(false);
+  const [targetValue, setTargetValue] = useState(1);
+  const [unit, setUnit] = useState('');
+  const [startDate, setStartDate] = useState(() => formatDateString(new Date()));
+  const [endDate, setEndDate] = useState<string | undefined>();
+  const [weeklyTarget, setWeeklyTarget] = useState(3);
+
+  const handleSave = async () => {
+    if (!db || !name.trim()) return;
+
+    await createHabit(db, {
+      name: name.trim(),
+      scheduleType: 'weekly',
+      weeklyTarget,
+      startDate,
+      endDate,
+      kind: isMeasurable ? 'measurable' : 'boolean',
+      targetValue,
+      unit,
+    });
+
+    router.back();
+  };
+
+  return (
+    <ModalContainer
+      title="Add Weekly Habit"
+      onSave={handleSave}
+      saveDisabled={!name.trim()}
+    >
+      <View>
+        <Text style={styles.label}>Habit Name</Text>
+        <TextInput
+          style={styles.input}
+          value={name}
+          onChangeText={setName}
+          placeholder="e.g., Go to the gym"
+          placeholderTextColor="#555"
+          autoFocus
+        />
+      </View>
+
+      <WeeklyTargetPicker weeklyTarget={weeklyTarget} onWeeklyTargetChange={setWeeklyTarget} />
+
+      <DateRangePicker
+        startDate={startDate}
+        onStartDateChange={setStartDate}
+        endDate={endDate}
+        onEndDateChange={setEndDate}
+      />
+
+      <TargetPicker
+        isMeasurable={isMeasurable}
+        onMeasurableChange={setIsMeasurable}
+        targetValue={targetValue}
+        onTargetChange={setTargetValue}
+        unit={unit}
+        onUnitChange={setUnit}
+      />
+    </ModalContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: {
+    fontSize: 14,
+    color: '#888',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#333',
+    padding: 16,
+    fontSize: 17,
+    color: '#fff',
+  },
+});
@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, StyleSheet } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { ModalContainer } from '@/components/modals/modal-container';
+import { useCompletionNote } from '@/hooks/use-habits';
+import { formatDateString, parseDateString } from '@/database/database';
+
+// Note sheet for one day's completion of a habit, opened by long-pressing it or after a swipe
+export default function CompletionNoteModal() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ habitId: string; date?: string }>();
+  const [date] = useState(() => (params.date ? parseDateString(params.date) : new Date()));
+  const { habit, entry, isLoading, saveNote } = useCompletionNote(params.habitId, date);
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the saved note once it has loaded
+  useEffect(() => {
+    if (entry?.note) setNote(entry.note);
+  }, [entry?.note]);
+
+  const isToday = formatDateString(date) === formatDateString(new Date());
+  const dayLabel = isToday
+    ? 'today'
+    : `on ${date.toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' })}`;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveNote(note);
+      router.back();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <ModalContainer
+      title={habit?.name ?? 'Note'}
+      onSave={handleSave}
+      saveDisabled={isLoading || isSaving || (!entry && !note.trim())}
+      saveLabel="Save"
+    >
+      <View>
+        <Text style={styles.label}>Note {dayLabel}</Text>
+        <TextInput
+          style={styles.input}
+          value={note}
+          onChangeText={setNote}
+          placeholder="e.g., 5k in 27 min"
+          placeholderTextColor="#555"
+          multiline
+          autoFocus
+        />
+        <Text style={styles.hint}>
+          {entry
+            ? 'Notes show up in the habit history and can be searched. Clear the text to remove it.'
+            : `Saving a note also marks ${habit?.name ?? 'this habit'} as done ${dayLabel}.`}
+        </Text>
+      </View>
+    </ModalContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: {
+    fontSize: 14,
+    color: '#888',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#333',
+    padding: 16,
+    minHeight: 120,
+    fontSize: 17,
+    color: '#fff',
+    textAlignVertical: 'top',
+  },
+  hint: {
+    marginTop: 12,
+    fontSize: 13,
+    color: '#666',
+  },
+});
@@ -4,8 +4,16 @@ import { useRouter, useLocalSearchParams } from 'expo-router';
 import { ModalContainer } from '@/components/modals/modal-container';
 import { DayPicker } from '@/components/modals/day-picker';
 import { IntervalPicker } from '@/components/modals/interval-picker';
+import { TargetPicker } from '@/components/modals/target-picker';
+import { DateRangePicker } from '@/components/modals/date-range-picker';
+import { WeeklyTargetPicker } from '@/components/modals/weekly-target-picker';
+import { MonthlyMode, MonthlyPicker } from '@/components/modals/monthly-picker';
+import { RRuleEditor, validateRRule } from '@/components/modals/rrule-editor';
+import { formatRRule } from '@/database/rrule';
+import { formatDateString, parseDateString } from '@/database/database';
 import { useDatabase } from '@/context/database-context';
-import { deleteHabit } from '@/database/habit-repository';
+import { archiveHabit, deleteHabit, refreshIntervalState, unarchiveHabit } from '@/database/habit-repository';
+import { recordScheduleRevision } from '@/database/revision-repository';
 import * as SQLite from 'expo-sqlite';
 import { HabitScheduleType } from '@/types/habit';
 
@@ -14,6 +22,11 @@ interface HabitDetails {
   name: string;
   scheduleType: HabitScheduleType;
   intervalDays?: number;
+  weeklyTarget?: number;
+  rruleStart?: string;
+  archivedDate?: string;
+  oneTimeDate?: string;
+  startDate?: string;
   days?: number[];
 }
 
@@ -27,6 +40,17 @@ export default function EditHabitModal() {
   const [name, setName] = useState('');
   const [selectedDays, setSelectedDays] = useState<number[]>([]);
   const [intervalDays, setIntervalDays] = useState(3);
+  const [weeklyTarget, setWeeklyTarget] = useState(3);
+  const [monthlyMode, setMonthlyMode] = useState<MonthlyMode>('day');
+  const [monthDay, setMonthDay] = useState(1);
+  const [monthWeek, setMonthWeek] = useState(1);
+  const [monthWeekday, setMonthWeekday] = useState(1);
+  const [rrule, setRRule] = useState('');
+  const [isMeasurable, setIsMeasurable] = useState(false);
+  const [targetValue, setTargetValue] = useState(1);
+  const [unit, setUnit] = useState('');
+  const [startDate, setStartDate] = useState(() => formatDateString(new Date()));
+  const [endDate, setEndDate] = useState<string | undefined>();
   const [isLoading, setIsLoading] = useState(true);
 
   // Load habit data
@@ -39,7 +63,20 @@ export default function EditHabitModal() {
           id: string;
           name: string;
           schedule_type: string;
+          kind: string;
+          target_value: number | null;
+          unit: string | null;
           interval_days: number | null;
+          weekly_target: number | null;
+          month_day: number | null;
+          month_week: number | null;
+          month_weekday: number | null;
+          rrule: string | null;
+          rrule_start: string | null;
+          archived_date: string | null;
+          one_time_date: string | null;
+          start_date: string | null;
+          end_date: string | null;
         }>('SELECT * FROM habits WHERE id = ?', [habitId]);
 
         if (habitRow) {
@@ -48,6 +85,11 @@ export default function EditHabitModal() {
             name: habitRow.name,
             scheduleType: habitRow.schedule_type as HabitScheduleType,
             intervalDays: habitRow.interval_days ?? undefined,
+            weeklyTarget: habitRow.weekly_target ?? undefined,
+            rruleStart: habitRow.rrule_start ?? undefined,
+            archivedDate: habitRow.archived_date ?? undefined,
+            oneTimeDate: habitRow.one_time_date ?? undefined,
+            startDate: habitRow.start_date ?? undefined,
           };
 
           // Load days for custom habits
@@ -65,6 +107,25 @@ export default function EditHabitModal() {
           if (habitRow.interval_days) {
             setIntervalDays(habitRow.interval_days);
           }
+          if (habitRow.weekly_target) {
+            setWeeklyTarget(habitRow.weekly_target);
+          }
+          if (habitRow.schedule_type === 'monthly') {
+            setMonthlyMode(habitRow.month_day ? 'day' : 'weekday');
+            setMonthDay(habitRow.month_day ?? 1);
+            setMonthWeek(habitRow.month_week ?? 1);
+            setMonthWeekday(habitRow.month_weekday ?? 1);
+          }
+          setRRule(habitRow.rrule ?? '');
+          setIsMeasurable(habitRow.kind === 'measurable');
+          if (habitRow.target_value) {
+            setTargetValue(habitRow.target_value);
+          }
+          setUnit(habitRow.unit ?? '');
+          if (habitRow.start_date) {
+            setStartDate(habitRow.start_date);
+          }
+          setEndDate(habitRow.end_date ?? undefined);
         }
       } finally {
         setIsLoading(false);
@@ -77,12 +138,27 @@ export default function EditHabitModal() {
   const handleSave = async () => {
     if (!db || !habitId || !name.trim()) return;
 
-    // Update habit name
-    await db.runAsync('UPDATE habits SET name = ?, updated_at = ? WHERE id = ?', [
-      name.trim(),
-      new Date().toISOString(),
-      habitId,
-    ]);
+    // Update habit name and what counts as done
+    await db.runAsync(
+      'UPDATE habits SET name = ?, kind = ?, target_value = ?, unit = ?, updated_at = ? WHERE id = ?',
+      [
+        name.trim(),
+        isMeasurable ? 'measurable' : 'boolean',
+        isMeasurable ? targetValue : null,
+        isMeasurable ? unit.trim() || null : null,
+        new Date().toISOString(),
+        habitId,
+      ]
+    );
+
+    // Update the active date range (one-time habits stay pinned to their day)
+    if (!habit?.oneTimeDate) {
+      await db.runAsync('UPDATE habits SET start_date = ?, end_date = ? WHERE id = ?', [
+        startDate,
+        endDate ?? null,
+        habitId,
+      ]);
+    }
 
     // Update schedule-specific data
     if (habit?.scheduleType === 'custom') {
@@ -99,15 +175,56 @@ export default function EditHabitModal() {
         intervalDays,
         habitId,
       ]);
+    } else if (habit?.scheduleType === 'weekly') {
+      await db.runAsync('UPDATE habits SET weekly_target = ? WHERE id = ?', [
+        weeklyTarget,
+        habitId,
+      ]);
+    } else if (habit?.scheduleType === 'monthly') {
+      const isDayMode = monthlyMode === 'day';
+      await db.runAsync(
+        'UPDATE habits SET month_day = ?, month_week = ?, month_weekday = ? WHERE id = ?',
+        [
+          isDayMode ? monthDay : null,
+          isDayMode ? null : monthWeek,
+          isDayMode ? null : monthWeekday,
+          habitId,
+        ]
+      );
+    } else if (habit?.scheduleType === 'rrule') {
+      const rule = validateRRule(rrule).rule;
+      if (rule) {
+        await db.runAsync('UPDATE habits SET rrule = ?, rrule_start = COALESCE(?, rrule_start) WHERE id = ?', [
+          formatRRule(rule),
+          rule.dtstart ?? null,
+          habitId,
+        ]);
+      }
     }
 
+    // Earlier dates keep being judged by the schedule that was in force back then
+    await recordScheduleRevision(db, habitId, formatDateString(new Date()));
+    if (habit?.scheduleType === 'interval') {
+      await refreshIntervalState(db, habitId);
+    }
+
+    router.back();
+  };
+
+  const handleToggleArchive = async () => {
+    if (!db || !habitId || !habit) return;
+    if (habit.archivedDate) {
+      await unarchiveHabit(db, habitId);
+    } else {
+      await archiveHabit(db, habitId);
+    }
     router.back();
   };
 
   const handleDelete = () => {
     Alert.alert(
       'Delete Habit',
-      `Are you sure you want to delete "${name}"? This action cannot be undone.`,
+      `Are you sure you want to delete "${name}" and all of its history? This action cannot be undone. Archive the habit instead to keep its history.`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -145,7 +262,8 @@ export default function EditHabitModal() {
 
   const isSaveDisabled =
     !name.trim() ||
-    (habit.scheduleType === 'custom' && selectedDays.length === 0);
+    (habit.scheduleType === 'custom' && selectedDays.length === 0) ||
+    (habit.scheduleType === 'rrule' && validateRRule(rrule).rule === null);
 
   return (
     <ModalContainer
@@ -173,10 +291,89 @@ export default function EditHabitModal() {
         <IntervalPicker intervalDays={intervalDays} onIntervalChange={setIntervalDays} />
       )}
 
+      {habit.scheduleType === 'weekly' && (
+        <WeeklyTargetPicker weeklyTarget={weeklyTarget} onWeeklyTargetChange={setWeeklyTarget} />
+      )}
+
+      {habit.scheduleType === 'monthly' && (
+        <MonthlyPicker
+          mode={monthlyMode}
+          onModeChange={setMonthlyMode}
+          monthDay={monthDay}
+          onMonthDayChange={setMonthDay}
+          monthWeek={monthWeek}
+          onMonthWeekChange={setMonthWeek}
+          monthWeekday={monthWeekday}
+          onMonthWeekdayChange={setMonthWeekday}
+        />
+      )}
+
+      {habit.scheduleType === 'rrule' && (
+        <RRuleEditor
+          rrule={rrule}
+          onRRuleChange={setRRule}
+          startDate={habit.rruleStart ?? formatDateString(new Date())}
+        />
+      )}
+
       {habit.scheduleType === 'daily' && (
         <Text style={styles.scheduleHint}>This habit repeats every day</Text>
       )}
 
+      {!habit.oneTimeDate && (
+        <DateRangePicker
+          startDate={startDate}
+          onStartDateChange={setStartDate}
+          endDate={endDate}
+          onEndDateChange={setEndDate}
+        />
+      )}
+
+      <TargetPicker
+        isMeasurable={isMeasurable}
+        onMeasurableChange={setIsMeasurable}
+        targetValue={targetValue}
+        onTargetChange={setTargetValue}
+        unit={unit}
+        onUnitChange={setUnit}
+      />
+
+      {/* History Button */}
+      <TouchableOpacity
+        style={styles.historyButton}
+        onPress={() => router.push(`/modal/habit-history?habitId=${habitId}`)}
+      >
+        <Text style={styles.archiveButtonText}>View History…</Text>
+      </TouchableOpacity>
+
+      {/* Pause Button */}
+      <TouchableOpacity
+        style={styles.archiveButton}
+        onPress={() =>
+          router.push(
+            `/modal/pause-habits?habitId=${habitId}&habitName=${encodeURIComponent(name.trim() || habit.name)}`
+          )
+        }
+      >
+        <Text style={styles.archiveButtonText}>Pause Habit…</Text>
+      </TouchableOpacity>
+
+      {/* Archive Button */}
+      <TouchableOpacity style={styles.archiveButton} onPress={handleToggleArchive}>
+        <Text style={styles.archiveButtonText}>
+          {habit.archivedDate ? 'Unarchive Habit' : 'Archive Habit'}
+        </Text>
+      </TouchableOpacity>
+      <Text style={styles.archiveHint}>
+        {habit.archivedDate
+          ? `Archived on ${parseDateString(habit.archivedDate).toLocaleDateString('en-US', {
+              month: 'short',
+              day: 'numeric',
+              year: 'numeric',
+            })}. Unarchive to put it back on your schedule.`
+          : 'Archived habits leave your schedule but keep their history and stats'}
+      </Text>
+
       {/* Delete Button */}
       <TouchableOpacity style={styles.deleteButton} onPress={handleDelete}>
         <Text style={styles.deleteButtonText}>Delete Habit</Text>
@@ -205,9 +402,38 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#666',
   },
-  deleteButton: {
+  historyButton: {
     marginTop: 40,
     padding: 16,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+    alignItems: 'center',
+  },
+  archiveButton: {
+    marginTop: 12,
+    padding: 16,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+    alignItems: 'center',
+  },
+  archiveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#8BBFB8',
+  },
+  archiveHint: {
+    marginTop: 8,
+    fontSize: 13,
+    color: '#666',
+    textAlign: 'center',
+  },
+  deleteButton: {
+    marginTop: 20,
+    padding: 16,
     backgroundColor: '#331111',
     borderRadius: 12,
     borderWidth: 1,
@@ -0,0 +1,391 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { ModalContainer } from '@/components/modals/modal-container';
+import { CompletionHeatmap } from '@/components/completion-heatmap';
+import { StrengthChart, StrengthRing } from '@/components/habit-strength';
+import { useCompletionHeatmap, useHabitHistory, useHabitStrength } from '@/hooks/use-habits';
+import { formatDateString, getMonthCells, parseDateString } from '@/database/database';
+import { isActiveOn } from '@/database/schedule';
+import { HabitDayState } from '@/types/habit';
+
+const WEEKDAY_LABELS = ['M', 'T', 'W', 'T', 'F', 'S', 'S'];
+
+const LEGEND: { state: HabitDayState; label: string }[] = [
+  { state: 'completed', label: 'Done' },
+  { state: 'skipped', label: 'Skipped' },
+  { state: 'missed', label: 'Missed' },
+  { state: 'paused', label: 'Paused' },
+];
+
+// Per-habit history: a month calendar where past days can be marked done or not done
+export default function HabitHistoryModal() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ habitId: string }>();
+  const habitId = params.habitId;
+  const today = formatDateString(new Date());
+
+  const [visibleMonth, setVisibleMonth] = useState(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), 1);
+  });
+  const { habit, days, streak, bestStreak, toggleDay } = useHabitHistory(habitId, visibleMonth);
+  const heatmap = useCompletionHeatmap(habitId);
+  const strength = useHabitStrength(habitId);
+
+  const cells = useMemo(
+    () => getMonthCells(visibleMonth.getFullYear(), visibleMonth.getMonth()),
+    [visibleMonth]
+  );
+  const daysByDate = useMemo(() => new Map(days.map((day) => [day.date, day])), [days]);
+  const notedDays = days.filter((day) => day.note);
+  const isCurrentMonth = formatDateString(visibleMonth) === today.slice(0, 8) + '01';
+
+  const handleToggleDay = async (date: string) => {
+    await toggleDay(date);
+    heatmap.refresh();
+    strength.refresh();
+  };
+
+  const shiftMonth = (delta: number) => {
+    setVisibleMonth(new Date(visibleMonth.getFullYear(), visibleMonth.getMonth() + delta, 1));
+  };
+
+  return (
+    <ModalContainer title={habit?.name ?? 'History'} onSave={() => router.back()} saveLabel="Done">
+      <View style={styles.streakRow}>
+        <View style={styles.streakBox}>
+          <Text style={styles.streakValue}>{streak}</Text>
+          <Text style={styles.streakLabel}>Current streak</Text>
+        </View>
+        <View style={styles.streakBox}>
+          <Text style={styles.streakValue}>{bestStreak}</Text>
+          <Text style={styles.streakLabel}>Best streak</Text>
+        </View>
+      </View>
+
+      <View style={styles.strength}>
+        <View style={styles.strengthHeader}>
+          <StrengthRing score={strength.score} size={72} theme="dark" />
+          <View style={styles.strengthText}>
+            <Text style={styles.strengthTitle}>Habit strength</Text>
+            <Text style={styles.strengthHint}>
+              Recent occurrences count most, so one miss dents it instead of starting over.
+            </Text>
+          </View>
+        </View>
+        <StrengthChart history={strength.history} theme="dark" />
+      </View>
+
+      <View style={styles.calendar}>
+        <View style={styles.calendarHeader}>
+          <TouchableOpacity onPress={() => shiftMonth(-1)} style={styles.monthArrow}>
+            <Text style={styles.monthArrowText}>‹</Text>
+          </TouchableOpacity>
+          <Text style={styles.monthTitle}>
+            {visibleMonth.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+          </Text>
+          <TouchableOpacity
+            onPress={() => shiftMonth(1)}
+            style={styles.monthArrow}
+            disabled={isCurrentMonth}
+          >
+            <Text style={[styles.monthArrowText, isCurrentMonth && styles.monthArrowDisabled]}>›</Text>
+          </TouchableOpacity>
+        </View>
+        <View style={styles.weekRow}>
+          {WEEKDAY_LABELS.map((label, index) => (
+            <Text key={index} style={styles.weekdayLabel}>
+              {label}
+            </Text>
+          ))}
+        </View>
+        <View style={styles.dayGrid}>
+          {cells.map((date, index) => {
+            if (!date) {
+              return <View key={`empty-${index}`} style={styles.dayCell} />;
+            }
+            const state = daysByDate.get(date)?.state ?? 'none';
+            // Only days the habit was active on, up to today, can be changed
+            const isEditable = habit !== null && date <= today && isActiveOn(habit, date);
+            return (
+              <TouchableOpacity
+                key={date}
+                style={styles.dayCell}
+                disabled={!isEditable}
+                onPress={() => handleToggleDay(date)}
+              >
+                <View style={[styles.dayCircle, stateStyles[state], date === today && styles.dayCircleToday]}>
+                  <Text
+                    style={[
+                      styles.dayText,
+                      state === 'completed' && styles.dayTextCompleted,
+                      !isEditable && styles.dayTextDisabled,
+                    ]}
+                  >
+                    {parseDateString(date).getDate()}
+                  </Text>
+                </View>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+
+      <View style={styles.legend}>
+        {LEGEND.map(({ state, label }) => (
+          <View key={state} style={styles.legendItem}>
+            <View style={[styles.legendSwatch, stateStyles[state]]} />
+            <Text style={styles.legendText}>{label}</Text>
+          </View>
+        ))}
+      </View>
+
+      <Text style={styles.hint}>Tap a past day to mark it done, or tap a done day to undo it.</Text>
+
+      {notedDays.length > 0 && (
+        <View style={styles.notes}>
+          <Text style={styles.notesTitle}>Notes</Text>
+          {notedDays.map((day) => (
+            <View key={day.date} style={styles.noteRow}>
+              <Text style={styles.noteDate}>
+                {parseDateString(day.date).toLocaleDateString('en-US', { weekday: 'short', day: 'numeric' })}
+              </Text>
+              <Text style={styles.noteText}>{day.note}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      <View style={styles.heatmap}>
+        <Text style={styles.heatmapTitle}>Last 12 months</Text>
+        <CompletionHeatmap
+          counts={heatmap.counts}
+          fromDate={heatmap.fromDate}
+          toDate={heatmap.toDate}
+          theme="dark"
+        />
+      </View>
+    </ModalContainer>
+  );
+}
+
+const stateStyles = StyleSheet.create({
+  completed: {
+    backgroundColor: '#4CAF50',
+  },
+  skipped: {
+    backgroundColor: '#333',
+  },
+  missed: {
+    borderWidth: 1,
+    borderColor: '#ff4444',
+  },
+  due: {
+    borderWidth: 1,
+    borderColor: '#8BBFB8',
+  },
+  paused: {
+    backgroundColor: '#1a1a1a',
+    borderWidth: 1,
+    borderColor: '#333',
+    borderStyle: 'dashed',
+  },
+  none: {},
+});
+
+const styles = StyleSheet.create({
+  streakRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  streakBox: {
+    flex: 1,
+    padding: 16,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+    alignItems: 'center',
+  },
+  streakValue: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  streakLabel: {
+    marginTop: 4,
+    fontSize: 13,
+    color: '#888',
+  },
+  strength: {
+    marginTop: 12,
+    padding: 12,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+    gap: 12,
+  },
+  strengthHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  strengthText: {
+    flex: 1,
+    marginLeft: 16,
+  },
+  strengthTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  strengthHint: {
+    marginTop: 4,
+    fontSize: 13,
+    color: '#666',
+  },
+  calendar: {
+    marginTop: 24,
+    padding: 12,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  calendarHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  monthArrow: {
+    width: 36,
+    height: 36,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  monthArrowText: {
+    fontSize: 24,
+    color: '#888',
+  },
+  monthArrowDisabled: {
+    color: '#333',
+  },
+  monthTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  weekRow: {
+    flexDirection: 'row',
+  },
+  weekdayLabel: {
+    width: '14.28%',
+    textAlign: 'center',
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 4,
+  },
+  dayGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  dayCell: {
+    width: '14.28%',
+    aspectRatio: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  dayCircle: {
+    width: 34,
+    height: 34,
+    borderRadius: 17,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  dayCircleToday: {
+    borderWidth: 2,
+    borderColor: '#fff',
+  },
+  dayText: {
+    fontSize: 14,
+    color: '#ccc',
+  },
+  dayTextCompleted: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  dayTextDisabled: {
+    color: '#444',
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 16,
+    marginTop: 16,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  legendSwatch: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    marginRight: 6,
+  },
+  legendText: {
+    fontSize: 13,
+    color: '#888',
+  },
+  hint: {
+    marginTop: 16,
+    fontSize: 13,
+    color: '#666',
+  },
+  notes: {
+    marginTop: 24,
+    padding: 12,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  notesTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#fff',
+    marginBottom: 4,
+  },
+  noteRow: {
+    flexDirection: 'row',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#2a2a2a',
+  },
+  noteDate: {
+    width: 64,
+    fontSize: 13,
+    color: '#888',
+  },
+  noteText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#ccc',
+  },
+  heatmap: {
+    marginTop: 24,
+    padding: 12,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  heatmapTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#fff',
+    marginBottom: 12,
+  },
+});
@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, StyleSheet } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { ModalContainer } from '@/components/modals/modal-container';
+import { RatingPicker } from '@/components/modals/rating-picker';
+import { ENERGY_OPTIONS, MOOD_OPTIONS } from '@/components/journal-card';
+import { useJournalEntry } from '@/hooks/use-habits';
+import { formatDateString, parseDateString } from '@/database/database';
+
+// Journal sheet for one day: mood, energy and a free-form reflection
+export default function JournalModal() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ date?: string }>();
+  const [date] = useState(() => (params.date ? parseDateString(params.date) : new Date()));
+  const { entry, isLoading, save } = useJournalEntry(date);
+  const [mood, setMood] = useState<number | undefined>();
+  const [energy, setEnergy] = useState<number | undefined>();
+  const [text, setText] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the saved entry once it has loaded
+  useEffect(() => {
+    if (!entry) return;
+    setMood(entry.mood);
+    setEnergy(entry.energy);
+    setText(entry.text ?? '');
+  }, [entry]);
+
+  const isToday = formatDateString(date) === formatDateString(new Date());
+  const title = isToday
+    ? 'Today'
+    : date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await save({ mood, energy, text });
+      router.back();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <ModalContainer title={title} onSave={handleSave} saveDisabled={isLoading || isSaving}>
+      <RatingPicker label="Mood" options={MOOD_OPTIONS} value={mood} onChange={setMood} />
+      <RatingPicker label="Energy" options={ENERGY_OPTIONS} value={energy} onChange={setEnergy} />
+
+      <View>
+        <Text style={styles.label}>Reflection</Text>
+        <TextInput
+          style={styles.input}
+          value={text}
+          onChangeText={setText}
+          placeholder="What went well? What got in the way?"
+          placeholderTextColor="#555"
+          multiline
+        />
+        <Text style={styles.hint}>Clearing everything removes the entry for this day.</Text>
+      </View>
+    </ModalContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: {
+    fontSize: 14,
+    color: '#888',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#333',
+    padding: 16,
+    minHeight: 160,
+    fontSize: 17,
+    color: '#fff',
+    textAlignVertical: 'top',
+  },
+  hint: {
+    marginTop: 12,
+    fontSize: 13,
+    color: '#666',
+  },
+});
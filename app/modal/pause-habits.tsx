@@ -0,0 +1,168 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { ModalContainer } from '@/components/modals/modal-container';
+import { DateRangePicker } from '@/components/modals/date-range-picker';
+import { useDatabase } from '@/context/database-context';
+import { createPause, deletePause, endPause, getGlobalPauses, getPauses } from '@/database/pause-repository';
+import { formatDateString, parseDateString } from '@/database/database';
+import { HabitPause } from '@/types/habit';
+
+function formatShortDate(dateString: string): string {
+  return parseDateString(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+function describePause(pause: HabitPause): string {
+  if (!pause.endDate) return `From ${formatShortDate(pause.startDate)}, until resumed`;
+  if (pause.endDate === pause.startDate) return formatShortDate(pause.startDate);
+  return `${formatShortDate(pause.startDate)} – ${formatShortDate(pause.endDate)}`;
+}
+
+// Vacation mode when opened without a habitId, otherwise pauses for that one habit
+export default function PauseHabitsModal() {
+  const router = useRouter();
+  const { db } = useDatabase();
+  const params = useLocalSearchParams<{ habitId?: string; habitName?: string }>();
+  const habitId = typeof params.habitId === 'string' ? params.habitId : undefined;
+  const today = formatDateString(new Date());
+
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState<string | undefined>(() => {
+    const weekLater = new Date();
+    weekLater.setDate(weekLater.getDate() + 6);
+    return formatDateString(weekLater);
+  });
+  const [pauses, setPauses] = useState<HabitPause[]>([]);
+
+  const loadPauses = useCallback(async () => {
+    if (!db) return;
+    setPauses(habitId ? await getPauses(db, habitId) : await getGlobalPauses(db));
+  }, [db, habitId]);
+
+  useEffect(() => {
+    loadPauses();
+  }, [loadPauses]);
+
+  const handleSave = async () => {
+    if (!db) return;
+    await createPause(db, { habitId, startDate, endDate });
+    router.back();
+  };
+
+  const handleResume = async (pause: HabitPause) => {
+    if (!db) return;
+    await endPause(db, pause.id);
+    await loadPauses();
+  };
+
+  const handleRemove = async (pause: HabitPause) => {
+    if (!db) return;
+    await deletePause(db, pause.id);
+    await loadPauses();
+  };
+
+  const title = habitId ? 'Pause Habit' : 'Vacation';
+
+  return (
+    <ModalContainer title={title} onSave={handleSave} saveLabel="Pause">
+      <Text style={styles.intro}>
+        {habitId
+          ? `${params.habitName ?? 'This habit'} won't be due while paused, and its streak is kept.`
+          : "No habits are due during a vacation, and your streaks won't break."}
+      </Text>
+
+      <DateRangePicker
+        label={habitId ? 'Pause Dates' : 'Vacation Dates'}
+        startDate={startDate}
+        onStartDateChange={setStartDate}
+        endDate={endDate}
+        onEndDateChange={setEndDate}
+        openEndLabel="Until resumed"
+      />
+
+      {pauses.length > 0 && (
+        <View style={styles.pauseList}>
+          <Text style={styles.label}>{habitId ? 'Pauses' : 'Vacations'}</Text>
+          {pauses.map((pause) => {
+            const isCurrent = pause.startDate <= today && (!pause.endDate || pause.endDate >= today);
+            const isPast = pause.endDate !== undefined && pause.endDate < today;
+            return (
+              <View key={pause.id} style={styles.pauseRow}>
+                <View style={styles.pauseText}>
+                  <Text style={styles.pauseDates}>{describePause(pause)}</Text>
+                  <Text style={styles.pauseStatus}>
+                    {isCurrent ? 'Active now' : isPast ? 'Past' : 'Upcoming'}
+                  </Text>
+                </View>
+                {isCurrent ? (
+                  <TouchableOpacity style={styles.pauseButton} onPress={() => handleResume(pause)}>
+                    <Text style={styles.pauseButtonText}>Resume</Text>
+                  </TouchableOpacity>
+                ) : (
+                  <TouchableOpacity style={styles.pauseButton} onPress={() => handleRemove(pause)}>
+                    <Text style={styles.removeButtonText}>Remove</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            );
+          })}
+        </View>
+      )}
+    </ModalContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  intro: {
+    fontSize: 14,
+    color: '#888',
+    lineHeight: 20,
+  },
+  label: {
+    fontSize: 14,
+    color: '#888',
+    marginBottom: 12,
+  },
+  pauseList: {
+    marginTop: 32,
+  },
+  pauseRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    marginBottom: 8,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  pauseText: {
+    flex: 1,
+  },
+  pauseDates: {
+    fontSize: 16,
+    color: '#fff',
+    fontWeight: '500',
+    marginBottom: 4,
+  },
+  pauseStatus: {
+    fontSize: 13,
+    color: '#666',
+  },
+  pauseButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  pauseButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#4CAF50',
+  },
+  removeButtonText: {
+    fontSize: 13,
+    color: '#ff4444',
+  },
+});
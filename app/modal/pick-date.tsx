@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { ModalContainer } from '@/components/modals/modal-container';
+import { MonthGrid } from '@/components/modals/date-range-picker';
+import { formatDateString, parseDateString } from '@/database/database';
+
+// Pick the day the Today screen shows; the choice goes back as the `date` param
+export default function PickDateModal() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ date?: string }>();
+  const today = formatDateString(new Date());
+  const [selectedDate, setSelectedDate] = useState(params.date ?? today);
+
+  const goToDate = (date: string) => {
+    router.dismissTo(`/?date=${date}`);
+  };
+
+  return (
+    <ModalContainer title="Go to Date" onSave={() => goToDate(selectedDate)} saveLabel="Go">
+      <View style={styles.calendarBox}>
+        <MonthGrid selectedDate={selectedDate} onSelect={setSelectedDate} />
+      </View>
+
+      <Text style={styles.selectedText}>
+        {parseDateString(selectedDate).toLocaleDateString('en-US', {
+          weekday: 'long',
+          month: 'long',
+          day: 'numeric',
+          year: 'numeric',
+        })}
+      </Text>
+
+      {selectedDate !== today && (
+        <TouchableOpacity style={styles.todayButton} onPress={() => goToDate(today)}>
+          <Text style={styles.todayButtonText}>Back to Today</Text>
+        </TouchableOpacity>
+      )}
+    </ModalContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  calendarBox: {
+    paddingTop: 12,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  selectedText: {
+    marginTop: 16,
+    fontSize: 15,
+    color: '#888',
+    textAlign: 'center',
+  },
+  todayButton: {
+    marginTop: 24,
+    padding: 16,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+    alignItems: 'center',
+  },
+  todayButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#8BBFB8',
+  },
+});
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, StyleSheet, TouchableOpacity } from 'react-native';
+import { useRouter } from 'expo-router';
+import { ModalContainer } from '@/components/modals/modal-container';
+import { useNoteSearch } from '@/hooks/use-habits';
+import { parseDateString } from '@/database/database';
+
+// Search every completion note; tapping a result opens its day on the Today screen
+export default function SearchNotesModal() {
+  const router = useRouter();
+  const [query, setQuery] = useState('');
+  const { results, isLoading } = useNoteSearch(query);
+
+  return (
+    <ModalContainer title="Search Notes" onSave={() => router.back()} saveLabel="Done">
+      <TextInput
+        style={styles.input}
+        value={query}
+        onChangeText={setQuery}
+        placeholder="Search notes"
+        placeholderTextColor="#555"
+        autoFocus
+        autoCorrect={false}
+        returnKeyType="search"
+      />
+
+      {query.trim() !== '' && !isLoading && results.length === 0 && (
+        <Text style={styles.hint}>No notes match &quot;{query.trim()}&quot;</Text>
+      )}
+
+      <View style={styles.results}>
+        {results.map((result) => (
+          <TouchableOpacity
+            key={`${result.habitId}-${result.date}`}
+            style={styles.resultRow}
+            onPress={() => router.dismissTo(`/?date=${result.date}`)}
+            activeOpacity={0.7}
+          >
+            <View style={styles.resultHeader}>
+              <Text style={styles.resultHabit} numberOfLines={1}>
+                {result.habitName}
+              </Text>
+              <Text style={styles.resultDate}>
+                {parseDateString(result.date).toLocaleDateString('en-US', {
+                  month: 'short',
+                  day: 'numeric',
+                  year: 'numeric',
+                })}
+              </Text>
+            </View>
+            <Text style={styles.resultNote}>{result.note}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </ModalContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  input: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#333',
+    padding: 16,
+    fontSize: 17,
+    color: '#fff',
+  },
+  hint: {
+    marginTop: 12,
+    fontSize: 13,
+    color: '#666',
+  },
+  results: {
+    marginTop: 16,
+    gap: 8,
+  },
+  resultRow: {
+    padding: 14,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  resultHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+    marginBottom: 4,
+  },
+  resultHabit: {
+    flex: 1,
+    marginRight: 12,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  resultDate: {
+    fontSize: 13,
+    color: '#888',
+  },
+  resultNote: {
+    fontSize: 14,
+    color: '#ccc',
+  },
+});
@@ -0,0 +1,119 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { useRouter } from 'expo-router';
+import { ModalContainer } from '@/components/modals/modal-container';
+import { useDatabase } from '@/context/database-context';
+import { useBooleanSetting } from '@/hooks/use-habits';
+import { clearAllData } from '@/database/habit-repository';
+
+export default function SettingsModal() {
+  const router = useRouter();
+  const { db } = useDatabase();
+  const { value: allowPastDayEdits, setValue: setAllowPastDayEdits } = useBooleanSetting('allowPastDayEdits');
+
+  const handleReset = () => {
+    Alert.alert(
+      'Reset All Data',
+      'This will delete all habits and completions. This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Reset',
+          style: 'destructive',
+          onPress: async () => {
+            if (!db) return;
+            await clearAllData(db);
+            router.back();
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <ModalContainer title="Settings" onSave={() => router.back()} saveLabel="Done">
+      {/* Past day editing */}
+      <TouchableOpacity
+        style={styles.checkboxRow}
+        onPress={() => setAllowPastDayEdits(!allowPastDayEdits)}
+        activeOpacity={0.7}
+      >
+        <View style={[styles.checkbox, allowPastDayEdits && styles.checkboxChecked]}>
+          {allowPastDayEdits && <Text style={styles.checkmark}>✓</Text>}
+        </View>
+        <View style={styles.checkboxTextContainer}>
+          <Text style={styles.checkboxLabel}>Edit past days</Text>
+          <Text style={styles.checkboxHint}>
+            {allowPastDayEdits
+              ? 'Habits can still be checked off or skipped on earlier days'
+              : 'Earlier days on the Today screen are read-only'}
+          </Text>
+        </View>
+      </TouchableOpacity>
+
+      {/* Reset Button */}
+      <TouchableOpacity style={styles.resetButton} onPress={handleReset}>
+        <Text style={styles.resetButtonText}>Reset All Data</Text>
+      </TouchableOpacity>
+    </ModalContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  checkboxRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    padding: 16,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  checkbox: {
+    width: 24,
+    height: 24,
+    borderRadius: 6,
+    borderWidth: 2,
+    borderColor: '#555',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+    marginTop: 2,
+  },
+  checkboxChecked: {
+    backgroundColor: '#8BBFB8',
+    borderColor: '#8BBFB8',
+  },
+  checkmark: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  checkboxTextContainer: {
+    flex: 1,
+  },
+  checkboxLabel: {
+    fontSize: 16,
+    color: '#fff',
+    fontWeight: '500',
+    marginBottom: 4,
+  },
+  checkboxHint: {
+    fontSize: 13,
+    color: '#666',
+  },
+  resetButton: {
+    marginTop: 40,
+    padding: 16,
+    backgroundColor: '#331111',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#662222',
+    alignItems: 'center',
+  },
+  resetButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ff4444',
+  },
+});
@@ -0,0 +1,134 @@
+import React, { useMemo, useRef } from 'react';
+import { ScrollView, StyleSheet, Text, View } from 'react-native';
+import { Rect, Svg, Text as SvgText } from 'react-native-svg';
+import { formatDateString, parseDateString } from '@/database/database';
+
+const CELL_SIZE = 11;
+const CELL_GAP = 3;
+const LABEL_WIDTH = 18; // Weekday labels on the left
+const HEADER_HEIGHT = 16; // Month labels on top
+
+// Day labels for the Monday-first rows; only every other one is shown, like GitHub does
+const WEEKDAY_LABELS = ['M', '', 'W', '', 'F', '', ''];
+
+const PALETTES = {
+  light: { empty: '#EEF1F0', levels: ['#CFE5E1', '#A9D2CB', '#8BBFB8', '#4F7F77'], label: '#999' },
+  dark: { empty: '#222', levels: ['#1E4D2B', '#2E7D32', '#43A047', '#4CAF50'], label: '#666' },
+};
+
+interface CompletionHeatmapProps {
+  counts: Map<string, number>; // Completions per YYYY-MM-DD date
+  fromDate: string; // YYYY-MM-DD Monday the first column starts on
+  toDate: string; // YYYY-MM-DD last day shown; later days of its week stay empty
+  theme?: keyof typeof PALETTES;
+}
+
+// GitHub-style heatmap: one column per week, one row per weekday, shaded by completions
+export function CompletionHeatmap({ counts, fromDate, toDate, theme = 'light' }: CompletionHeatmapProps) {
+  const scrollRef = useRef<ScrollView>(null);
+  const palette = PALETTES[theme];
+
+  const { cells, monthLabels, weekCount } = useMemo(() => {
+    const maxCount = Math.max(1, ...counts.values());
+    const result: { date: string; x: number; y: number; color: string }[] = [];
+    const labels: { x: number; text: string }[] = [];
+    const cursor = parseDateString(fromDate);
+    let week = 0;
+    let weekCount = 0;
+    while (formatDateString(cursor) <= toDate) {
+      const date = formatDateString(cursor);
+      const row = (cursor.getDay() + 6) % 7;
+      const count = counts.get(date) ?? 0;
+      // Four shades, each covering a quarter of the busiest day's count
+      const level = Math.min(3, Math.ceil((count / maxCount) * 4) - 1);
+      const x = LABEL_WIDTH + week * (CELL_SIZE + CELL_GAP);
+      result.push({
+        date,
+        x,
+        y: HEADER_HEIGHT + row * (CELL_SIZE + CELL_GAP),
+        color: count > 0 ? palette.levels[level] : palette.empty,
+      });
+      weekCount = week + 1;
+      // Label each month over its first full week
+      if (row === 0 && cursor.getDate() <= 7) {
+        labels.push({ x, text: cursor.toLocaleDateString('en-US', { month: 'short' }) });
+      }
+      if (row === 6) week++;
+      cursor.setDate(cursor.getDate() + 1);
+    }
+    return { cells: result, monthLabels: labels, weekCount };
+  }, [counts, fromDate, toDate, palette]);
+
+  const width = LABEL_WIDTH + weekCount * (CELL_SIZE + CELL_GAP);
+  const height = HEADER_HEIGHT + 7 * (CELL_SIZE + CELL_GAP);
+
+  return (
+    <View>
+      <ScrollView
+        ref={scrollRef}
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        onContentSizeChange={() => scrollRef.current?.scrollToEnd({ animated: false })}
+      >
+        <Svg width={width} height={height}>
+          {monthLabels.map((label, index) => (
+            <SvgText key={index} x={label.x} y={HEADER_HEIGHT - 5} fontSize={10} fill={palette.label}>
+              {label.text}
+            </SvgText>
+          ))}
+          {WEEKDAY_LABELS.map((label, row) =>
+            label ? (
+              <SvgText
+                key={row}
+                x={0}
+                y={HEADER_HEIGHT + row * (CELL_SIZE + CELL_GAP) + CELL_SIZE - 2}
+                fontSize={9}
+                fill={palette.label}
+              >
+                {label}
+              </SvgText>
+            ) : null
+          )}
+          {cells.map((cell) => (
+            <Rect
+              key={cell.date}
+              x={cell.x}
+              y={cell.y}
+              width={CELL_SIZE}
+              height={CELL_SIZE}
+              rx={2}
+              fill={cell.color}
+            />
+          ))}
+        </Svg>
+      </ScrollView>
+
+      <View style={styles.legend}>
+        <Text style={[styles.legendText, { color: palette.label }]}>Less</Text>
+        {[palette.empty, ...palette.levels].map((color) => (
+          <View key={color} style={[styles.legendSwatch, { backgroundColor: color }]} />
+        ))}
+        <Text style={[styles.legendText, { color: palette.label }]}>More</Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  legend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    gap: 3,
+    marginTop: 8,
+  },
+  legendSwatch: {
+    width: CELL_SIZE,
+    height: CELL_SIZE,
+    borderRadius: 2,
+  },
+  legendText: {
+    fontSize: 11,
+    marginHorizontal: 3,
+  },
+});
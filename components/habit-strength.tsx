@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { Circle, Line, Polyline, Svg, Text as SvgText } from 'react-native-svg';
+import { parseDateString } from '@/database/database';
+import { HabitStrengthPoint } from '@/types/habit';
+
+const RING_STROKE = 8;
+const CHART_HEIGHT = 120;
+const CHART_LABEL_WIDTH = 30; // Percentage labels on the left
+const CHART_WEEKS = 26; // Most recent weekly scores charted
+
+const PALETTES = {
+  light: { track: '#EEF1F0', fill: '#8BBFB8', text: '#4F7F77', label: '#999', grid: '#F0F2F1' },
+  dark: { track: '#222', fill: '#4CAF50', text: '#fff', label: '#666', grid: '#2a2a2a' },
+};
+
+type Theme = keyof typeof PALETTES;
+
+// The strength score as a ring filled clockwise from the top, with the percentage in the middle
+export function StrengthRing({ score, size = 96, theme = 'light' }: { score: number; size?: number; theme?: Theme }) {
+  const palette = PALETTES[theme];
+  const radius = (size - RING_STROKE) / 2;
+  const circumference = 2 * Math.PI * radius;
+
+  return (
+    <View style={{ width: size, height: size }}>
+      <Svg width={size} height={size}>
+        <Circle
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          stroke={palette.track}
+          strokeWidth={RING_STROKE}
+          fill="none"
+        />
+        <Circle
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          stroke={palette.fill}
+          strokeWidth={RING_STROKE}
+          strokeLinecap="round"
+          strokeDasharray={`${circumference} ${circumference}`}
+          strokeDashoffset={circumference * (1 - score)}
+          transform={`rotate(-90 ${size / 2} ${size / 2})`}
+          fill="none"
+        />
+      </Svg>
+      <View style={styles.ringCenter}>
+        <Text style={[styles.ringValue, { color: palette.text }]}>{Math.round(score * 100)}%</Text>
+      </View>
+    </View>
+  );
+}
+
+// Line chart of the weekly strength scores, newest on the right
+export function StrengthChart({ history, theme = 'light' }: { history: HabitStrengthPoint[]; theme?: Theme }) {
+  const palette = PALETTES[theme];
+  const [width, setWidth] = useState(0);
+  const points = history.slice(-CHART_WEEKS);
+
+  const plotWidth = width - CHART_LABEL_WIDTH;
+  const step = points.length > 1 ? plotWidth / (points.length - 1) : 0;
+  const getY = (score: number) => 4 + (1 - score) * (CHART_HEIGHT - 8);
+  const coordinates = points
+    .map((point, index) => `${CHART_LABEL_WIDTH + index * step},${getY(point.score)}`)
+    .join(' ');
+  const formatLabel = (date: string) =>
+    parseDateString(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+  return (
+    <View onLayout={(event) => setWidth(event.nativeEvent.layout.width)}>
+      {width > 0 && points.length > 1 && (
+        <Svg width={width} height={CHART_HEIGHT}>
+          {[0, 0.5, 1].map((score) => (
+            <React.Fragment key={score}>
+              <Line
+                x1={CHART_LABEL_WIDTH}
+                x2={width}
+                y1={getY(score)}
+                y2={getY(score)}
+                stroke={palette.grid}
+                strokeWidth={1}
+              />
+              <SvgText x={0} y={getY(score) + 4} fontSize={10} fill={palette.label}>
+                {`${score * 100}%`}
+              </SvgText>
+            </React.Fragment>
+          ))}
+          <Polyline points={coordinates} stroke={palette.fill} strokeWidth={2} fill="none" />
+        </Svg>
+      )}
+      {points.length > 1 ? (
+        <View style={[styles.chartAxis, { marginLeft: CHART_LABEL_WIDTH }]}>
+          <Text style={[styles.chartAxisText, { color: palette.label }]}>{formatLabel(points[0].date)}</Text>
+          <Text style={[styles.chartAxisText, { color: palette.label }]}>
+            {formatLabel(points[points.length - 1].date)}
+          </Text>
+        </View>
+      ) : (
+        <Text style={[styles.chartAxisText, { color: palette.label }]}>
+          The chart fills in after the habit&apos;s first full week.
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  ringCenter: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  ringValue: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  chartAxis: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
+  chartAxisText: {
+    fontSize: 11,
+  },
+});
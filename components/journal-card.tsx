@@ -0,0 +1,107 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { RatingOption } from '@/components/modals/rating-picker';
+import { JournalEntry } from '@/types/habit';
+
+export const MOOD_OPTIONS: RatingOption[] = [
+  { value: 1, emoji: '😞', label: 'Awful' },
+  { value: 2, emoji: '😕', label: 'Bad' },
+  { value: 3, emoji: '😐', label: 'Okay' },
+  { value: 4, emoji: '🙂', label: 'Good' },
+  { value: 5, emoji: '😄', label: 'Great' },
+];
+
+export const ENERGY_OPTIONS: RatingOption[] = [
+  { value: 1, emoji: '🪫', label: 'Drained' },
+  { value: 2, emoji: '😴', label: 'Tired' },
+  { value: 3, emoji: '🙂', label: 'Okay' },
+  { value: 4, emoji: '💪', label: 'Strong' },
+  { value: 5, emoji: '⚡', label: 'Energized' },
+];
+
+// Emoji for a rating, rounded to the nearest option (averages come in as fractions)
+export const getRatingEmoji = (options: RatingOption[], value?: number) =>
+  value === undefined ? undefined : options[Math.min(options.length, Math.max(1, Math.round(value))) - 1].emoji;
+
+// The day's journal entry on the Today screen; tapping it opens the journal sheet
+export function JournalCard({ entry, onPress }: { entry: JournalEntry | null; onPress?: () => void }) {
+  const mood = MOOD_OPTIONS.find((option) => option.value === entry?.mood);
+  const energy = ENERGY_OPTIONS.find((option) => option.value === entry?.energy);
+
+  return (
+    <TouchableOpacity style={styles.card} onPress={onPress} disabled={!onPress} activeOpacity={0.7}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Journal</Text>
+        {onPress && <Text style={styles.action}>{entry ? 'Edit' : 'Write'}</Text>}
+      </View>
+      {entry ? (
+        <>
+          {(mood || energy) && (
+            <View style={styles.ratingRow}>
+              {mood && <Text style={styles.rating}>{mood.emoji} {mood.label}</Text>}
+              {energy && <Text style={styles.rating}>{energy.emoji} {energy.label}</Text>}
+            </View>
+          )}
+          {!!entry.text && (
+            <Text style={styles.text} numberOfLines={3}>
+              {entry.text}
+            </Text>
+          )}
+        </>
+      ) : (
+        <Text style={styles.placeholder}>
+          {onPress ? 'How did the day go? Rate your mood and energy, or jot down a few lines.' : 'Nothing written'}
+        </Text>
+      )}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginHorizontal: 20,
+    marginBottom: 24,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 20,
+    padding: 16,
+    shadowColor: '#8BBFB8',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.06,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#4F7F77',
+  },
+  action: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#8BBFB8',
+  },
+  ratingRow: {
+    flexDirection: 'row',
+    gap: 16,
+    marginBottom: 4,
+  },
+  rating: {
+    fontSize: 14,
+    color: '#333',
+  },
+  text: {
+    marginTop: 4,
+    fontSize: 14,
+    color: '#555',
+  },
+  placeholder: {
+    fontSize: 14,
+    color: '#999',
+  },
+});
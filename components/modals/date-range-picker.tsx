@@ -0,0 +1,307 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { getMonthCells, parseDateString } from '@/database/database';
+
+interface DateRangePickerProps {
+  startDate: string; // YYYY-MM-DD
+  onStartDateChange: (date: string) => void;
+  endDate?: string; // YYYY-MM-DD, undefined for no end date
+  onEndDateChange: (date: string | undefined) => void;
+  startHint?: string;
+  label?: string;
+  openEndLabel?: string; // Shown when there is no end date
+}
+
+type EditingField = 'start' | 'end' | null;
+
+const WEEKDAY_LABELS = ['M', 'T', 'W', 'T', 'F', 'S', 'S'];
+
+function formatLongDate(dateString: string): string {
+  return parseDateString(dateString).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+// Single-date month calendar, also used on its own to pick a day
+export function MonthGrid({
+  selectedDate,
+  minDate,
+  onSelect,
+}: {
+  selectedDate: string;
+  minDate?: string;
+  onSelect: (date: string) => void;
+}) {
+  const [visibleMonth, setVisibleMonth] = useState(() => {
+    const date = parseDateString(selectedDate);
+    return new Date(date.getFullYear(), date.getMonth(), 1);
+  });
+  const cells = useMemo(
+    () => getMonthCells(visibleMonth.getFullYear(), visibleMonth.getMonth()),
+    [visibleMonth]
+  );
+
+  const shiftMonth = (delta: number) => {
+    setVisibleMonth(new Date(visibleMonth.getFullYear(), visibleMonth.getMonth() + delta, 1));
+  };
+
+  return (
+    <View style={styles.calendar}>
+      <View style={styles.calendarHeader}>
+        <TouchableOpacity onPress={() => shiftMonth(-1)} style={styles.monthArrow}>
+          <Text style={styles.monthArrowText}>‹</Text>
+        </TouchableOpacity>
+        <Text style={styles.monthTitle}>
+          {visibleMonth.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+        </Text>
+        <TouchableOpacity onPress={() => shiftMonth(1)} style={styles.monthArrow}>
+          <Text style={styles.monthArrowText}>›</Text>
+        </TouchableOpacity>
+      </View>
+      <View style={styles.weekRow}>
+        {WEEKDAY_LABELS.map((label, index) => (
+          <Text key={index} style={styles.weekdayLabel}>
+            {label}
+          </Text>
+        ))}
+      </View>
+      <View style={styles.dayGrid}>
+        {cells.map((date, index) => {
+          if (!date) {
+            return <View key={`empty-${index}`} style={styles.dayCell} />;
+          }
+          const isDisabled = minDate !== undefined && date < minDate;
+          const isSelected = date === selectedDate;
+          return (
+            <TouchableOpacity
+              key={date}
+              style={styles.dayCell}
+              disabled={isDisabled}
+              onPress={() => onSelect(date)}
+            >
+              <View style={[styles.dayCircle, isSelected && styles.dayCircleSelected]}>
+                <Text
+                  style={[
+                    styles.dayText,
+                    isDisabled && styles.dayTextDisabled,
+                    isSelected && styles.dayTextSelected,
+                  ]}
+                >
+                  {parseDateString(date).getDate()}
+                </Text>
+              </View>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+export function DateRangePicker({
+  startDate,
+  onStartDateChange,
+  endDate,
+  onEndDateChange,
+  startHint,
+  label = 'Active Dates',
+  openEndLabel = 'Never',
+}: DateRangePickerProps) {
+  const [editing, setEditing] = useState<EditingField>(null);
+
+  const handleStartSelect = (date: string) => {
+    onStartDateChange(date);
+    // Keep the range valid when the start moves past the end
+    if (endDate && endDate < date) {
+      onEndDateChange(date);
+    }
+    setEditing(null);
+  };
+
+  const handleEndSelect = (date: string | undefined) => {
+    onEndDateChange(date);
+    setEditing(null);
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>{label}</Text>
+
+      <View style={styles.rangeBox}>
+        <TouchableOpacity
+          style={styles.row}
+          onPress={() => setEditing(editing === 'start' ? null : 'start')}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.rowLabel}>Starts</Text>
+          <Text style={[styles.rowValue, editing === 'start' && styles.rowValueActive]}>
+            {formatLongDate(startDate)}
+          </Text>
+        </TouchableOpacity>
+        {editing === 'start' && (
+          <MonthGrid selectedDate={startDate} onSelect={handleStartSelect} />
+        )}
+
+        <View style={styles.divider} />
+
+        <TouchableOpacity
+          style={styles.row}
+          onPress={() => setEditing(editing === 'end' ? null : 'end')}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.rowLabel}>Ends</Text>
+          <Text style={[styles.rowValue, editing === 'end' && styles.rowValueActive]}>
+            {endDate ? formatLongDate(endDate) : openEndLabel}
+          </Text>
+        </TouchableOpacity>
+        {editing === 'end' && (
+          <>
+            <MonthGrid
+              selectedDate={endDate ?? startDate}
+              minDate={startDate}
+              onSelect={handleEndSelect}
+            />
+            {endDate && (
+              <TouchableOpacity
+                style={styles.clearButton}
+                onPress={() => handleEndSelect(undefined)}
+              >
+                <Text style={styles.clearButtonText}>No end date</Text>
+              </TouchableOpacity>
+            )}
+          </>
+        )}
+      </View>
+
+      {startHint && <Text style={styles.previewText}>{startHint}</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 20,
+  },
+  label: {
+    fontSize: 14,
+    color: '#888',
+    marginBottom: 12,
+  },
+  rangeBox: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+  },
+  rowLabel: {
+    fontSize: 16,
+    color: '#fff',
+    fontWeight: '500',
+  },
+  rowValue: {
+    fontSize: 15,
+    color: '#888',
+  },
+  rowValueActive: {
+    color: '#4CAF50',
+    fontWeight: '600',
+  },
+  divider: {
+    height: 1,
+    backgroundColor: '#333',
+    marginHorizontal: 16,
+  },
+  calendar: {
+    paddingHorizontal: 12,
+    paddingBottom: 12,
+  },
+  calendarHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  monthArrow: {
+    width: 36,
+    height: 36,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  monthArrowText: {
+    fontSize: 24,
+    color: '#888',
+  },
+  monthTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  weekRow: {
+    flexDirection: 'row',
+  },
+  weekdayLabel: {
+    width: '14.28%',
+    textAlign: 'center',
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 4,
+  },
+  dayGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  dayCell: {
+    width: '14.28%',
+    aspectRatio: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  dayCircle: {
+    width: 34,
+    height: 34,
+    borderRadius: 17,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  dayCircleSelected: {
+    backgroundColor: '#4CAF50',
+  },
+  dayText: {
+    fontSize: 14,
+    color: '#ccc',
+  },
+  dayTextDisabled: {
+    color: '#444',
+  },
+  dayTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  clearButton: {
+    alignSelf: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    marginBottom: 12,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  clearButtonText: {
+    fontSize: 13,
+    color: '#888',
+  },
+  previewText: {
+    marginTop: 12,
+    fontSize: 13,
+    color: '#666',
+  },
+});
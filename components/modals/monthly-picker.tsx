@@ -0,0 +1,234 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+
+export type MonthlyMode = 'day' | 'weekday';
+
+interface MonthlyPickerProps {
+  mode: MonthlyMode;
+  onModeChange: (mode: MonthlyMode) => void;
+  monthDay: number;
+  onMonthDayChange: (day: number) => void;
+  monthWeek: number;
+  onMonthWeekChange: (week: number) => void;
+  monthWeekday: number;
+  onMonthWeekdayChange: (weekday: number) => void;
+}
+
+const DAYS_OF_MONTH = Array.from({ length: 31 }, (_, index) => index + 1);
+
+const WEEK_OPTIONS = [
+  { value: 1, label: '1st' },
+  { value: 2, label: '2nd' },
+  { value: 3, label: '3rd' },
+  { value: 4, label: '4th' },
+  { value: -1, label: 'Last' },
+];
+
+const WEEKDAYS = [
+  { index: 0, label: 'Sun', fullLabel: 'Sunday' },
+  { index: 1, label: 'Mon', fullLabel: 'Monday' },
+  { index: 2, label: 'Tue', fullLabel: 'Tuesday' },
+  { index: 3, label: 'Wed', fullLabel: 'Wednesday' },
+  { index: 4, label: 'Thu', fullLabel: 'Thursday' },
+  { index: 5, label: 'Fri', fullLabel: 'Friday' },
+  { index: 6, label: 'Sat', fullLabel: 'Saturday' },
+];
+
+function ordinal(day: number): string {
+  if (day >= 11 && day <= 13) return `${day}th`;
+  switch (day % 10) {
+    case 1:
+      return `${day}st`;
+    case 2:
+      return `${day}nd`;
+    case 3:
+      return `${day}rd`;
+    default:
+      return `${day}th`;
+  }
+}
+
+// Human-readable monthly schedule, e.g. "Monthly on the 1st" or "Monthly on the last Saturday"
+export function describeMonthlySchedule(habit: {
+  monthDay?: number;
+  monthWeek?: number;
+  monthWeekday?: number;
+}): string {
+  if (habit.monthDay) {
+    return `Monthly on the ${ordinal(habit.monthDay)}`;
+  }
+  const week = WEEK_OPTIONS.find((option) => option.value === habit.monthWeek);
+  const weekday = WEEKDAYS.find((day) => day.index === habit.monthWeekday);
+  if (!week || !weekday) return 'Monthly';
+  return `Monthly on the ${week.label.toLowerCase()} ${weekday.fullLabel}`;
+}
+
+export function MonthlyPicker({
+  mode,
+  onModeChange,
+  monthDay,
+  onMonthDayChange,
+  monthWeek,
+  onMonthWeekChange,
+  monthWeekday,
+  onMonthWeekdayChange,
+}: MonthlyPickerProps) {
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Repeat Monthly</Text>
+
+      <View style={styles.modeRow}>
+        <TouchableOpacity
+          style={[styles.modeButton, mode === 'day' && styles.optionSelected]}
+          onPress={() => onModeChange('day')}
+        >
+          <Text style={[styles.optionText, mode === 'day' && styles.optionTextSelected]}>
+            Day of month
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.modeButton, mode === 'weekday' && styles.optionSelected]}
+          onPress={() => onModeChange('weekday')}
+        >
+          <Text style={[styles.optionText, mode === 'weekday' && styles.optionTextSelected]}>
+            Weekday of month
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {mode === 'day' ? (
+        <View style={styles.dayGrid}>
+          {DAYS_OF_MONTH.map((day) => (
+            <TouchableOpacity
+              key={day}
+              onPress={() => onMonthDayChange(day)}
+              style={[styles.dayButton, monthDay === day && styles.optionSelected]}
+            >
+              <Text style={[styles.optionText, monthDay === day && styles.optionTextSelected]}>
+                {day}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      ) : (
+        <>
+          <View style={styles.chipRow}>
+            {WEEK_OPTIONS.map((option) => (
+              <TouchableOpacity
+                key={option.value}
+                onPress={() => onMonthWeekChange(option.value)}
+                style={[styles.chip, monthWeek === option.value && styles.optionSelected]}
+              >
+                <Text style={[styles.optionText, monthWeek === option.value && styles.optionTextSelected]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <View style={styles.chipRow}>
+            {WEEKDAYS.map((day) => (
+              <TouchableOpacity
+                key={day.index}
+                onPress={() => onMonthWeekdayChange(day.index)}
+                style={[styles.weekdayButton, monthWeekday === day.index && styles.optionSelected]}
+              >
+                <Text style={[styles.optionText, monthWeekday === day.index && styles.optionTextSelected]}>
+                  {day.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </>
+      )}
+
+      <Text style={styles.previewText}>
+        {mode === 'day'
+          ? describeMonthlySchedule({ monthDay })
+          : describeMonthlySchedule({ monthWeek, monthWeekday })}
+        {mode === 'day' && monthDay > 28 && '. Shorter months use their last day instead.'}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 20,
+  },
+  label: {
+    fontSize: 14,
+    color: '#888',
+    marginBottom: 12,
+  },
+  modeRow: {
+    flexDirection: 'row',
+    gap: 10,
+    marginBottom: 16,
+  },
+  modeButton: {
+    flex: 1,
+    paddingVertical: 10,
+    alignItems: 'center',
+    backgroundColor: '#1a1a1a',
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  dayGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  dayButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#1a1a1a',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  weekdayButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: '#1a1a1a',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  optionSelected: {
+    backgroundColor: '#4CAF50',
+    borderColor: '#4CAF50',
+  },
+  optionText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#888',
+  },
+  optionTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  previewText: {
+    marginTop: 16,
+    fontSize: 13,
+    color: '#666',
+  },
+});
@@ -0,0 +1,80 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+
+export interface RatingOption {
+  value: number;
+  emoji: string;
+  label: string;
+}
+
+interface RatingPickerProps {
+  label: string;
+  options: RatingOption[];
+  value?: number;
+  onChange: (value: number | undefined) => void;
+}
+
+// A row of rating choices; tapping the chosen one again clears it
+export function RatingPicker({ label, options, value, onChange }: RatingPickerProps) {
+  const selected = options.find((option) => option.value === value);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.labelRow}>
+        <Text style={styles.label}>{label}</Text>
+        <Text style={styles.selectedLabel}>{selected?.label ?? 'Not rated'}</Text>
+      </View>
+      <View style={styles.optionRow}>
+        {options.map((option) => (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.option, option.value === value && styles.optionSelected]}
+            onPress={() => onChange(option.value === value ? undefined : option.value)}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.optionEmoji}>{option.emoji}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 24,
+  },
+  labelRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 14,
+    color: '#888',
+  },
+  selectedLabel: {
+    fontSize: 14,
+    color: '#8BBFB8',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  option: {
+    flex: 1,
+    paddingVertical: 12,
+    alignItems: 'center',
+    backgroundColor: '#1a1a1a',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  optionSelected: {
+    borderColor: '#8BBFB8',
+    backgroundColor: '#1f2e2c',
+  },
+  optionEmoji: {
+    fontSize: 24,
+  },
+});
@@ -0,0 +1,152 @@
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity } from 'react-native';
+import { describeRRule, getRRuleOccurrences, parseRRule } from '@/database/rrule';
+import { parseDateString } from '@/database/database';
+
+interface RRuleEditorProps {
+  rrule: string;
+  onRRuleChange: (rrule: string) => void;
+  startDate: string; // YYYY-MM-DD the rule is anchored at
+}
+
+const PRESETS = [
+  { label: 'Every other Mon & Thu', rrule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH' },
+  { label: 'Weekdays', rrule: 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR' },
+  { label: '1st & 15th', rrule: 'FREQ=MONTHLY;BYMONTHDAY=1,15' },
+  { label: 'Last Friday', rrule: 'FREQ=MONTHLY;BYDAY=-1FR' },
+  { label: 'Every 10 days, 6 times', rrule: 'FREQ=DAILY;INTERVAL=10;COUNT=6' },
+];
+
+const PREVIEW_COUNT = 5;
+
+// Parse the rule text, returning either the parsed rule or the reason it is invalid
+export function validateRRule(rrule: string) {
+  try {
+    return { rule: parseRRule(rrule), error: null };
+  } catch (e) {
+    return { rule: null, error: e instanceof Error ? e.message : 'Invalid rule' };
+  }
+}
+
+export function RRuleEditor({ rrule, onRRuleChange, startDate }: RRuleEditorProps) {
+  const { rule, error } = useMemo(() => validateRRule(rrule), [rrule]);
+
+  const upcoming = useMemo(() => {
+    if (!rule) return [];
+    const from = new Date();
+    const to = new Date(from);
+    to.setFullYear(to.getFullYear() + 2);
+    return getRRuleOccurrences(rule, rule.dtstart ?? startDate, from, to, PREVIEW_COUNT);
+  }, [rule, startDate]);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Recurrence Rule (RRULE)</Text>
+      <TextInput
+        style={[styles.input, error && rrule.trim() ? styles.inputError : null]}
+        value={rrule}
+        onChangeText={onRRuleChange}
+        placeholder="FREQ=WEEKLY;BYDAY=MO,WE,FR"
+        placeholderTextColor="#555"
+        autoCapitalize="characters"
+        autoCorrect={false}
+        multiline
+      />
+
+      <View style={styles.presets}>
+        {PRESETS.map((preset) => (
+          <TouchableOpacity
+            key={preset.rrule}
+            onPress={() => onRRuleChange(preset.rrule)}
+            style={[styles.preset, rrule === preset.rrule && styles.presetSelected]}
+          >
+            <Text style={[styles.presetText, rrule === preset.rrule && styles.presetTextSelected]}>
+              {preset.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {rule ? (
+        <>
+          <Text style={styles.previewText}>{describeRRule(rule)}</Text>
+          <Text style={styles.previewText}>
+            {upcoming.length > 0
+              ? `Next: ${upcoming
+                  .map((date) =>
+                    parseDateString(date).toLocaleDateString('en-US', {
+                      weekday: 'short',
+                      month: 'short',
+                      day: 'numeric',
+                    })
+                  )
+                  .join(', ')}`
+              : 'No upcoming dates'}
+          </Text>
+        </>
+      ) : (
+        rrule.trim() !== '' && <Text style={styles.errorText}>{error}</Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 20,
+  },
+  label: {
+    fontSize: 14,
+    color: '#888',
+    marginBottom: 12,
+  },
+  input: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#333',
+    padding: 16,
+    fontSize: 15,
+    color: '#fff',
+    fontFamily: 'monospace',
+  },
+  inputError: {
+    borderColor: '#662222',
+  },
+  presets: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 16,
+  },
+  preset: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  presetSelected: {
+    backgroundColor: '#4CAF50',
+    borderColor: '#4CAF50',
+  },
+  presetText: {
+    fontSize: 13,
+    color: '#888',
+  },
+  presetTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  previewText: {
+    marginTop: 16,
+    fontSize: 13,
+    color: '#666',
+  },
+  errorText: {
+    marginTop: 16,
+    fontSize: 13,
+    color: '#ff4444',
+  },
+});
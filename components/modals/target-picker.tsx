@@ -0,0 +1,160 @@
+import React from 'react';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity } from 'react-native';
+
+interface TargetPickerProps {
+  isMeasurable: boolean;
+  onMeasurableChange: (isMeasurable: boolean) => void;
+  targetValue: number;
+  onTargetChange: (targetValue: number) => void;
+  unit: string;
+  onUnitChange: (unit: string) => void;
+}
+
+export function TargetPicker({
+  isMeasurable,
+  onMeasurableChange,
+  targetValue,
+  onTargetChange,
+  unit,
+  onUnitChange,
+}: TargetPickerProps) {
+  const handleTargetChange = (text: string) => {
+    const num = parseFloat(text);
+    if (!isNaN(num) && num > 0) {
+      onTargetChange(num);
+    } else if (text === '') {
+      onTargetChange(1);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity
+        style={styles.checkboxRow}
+        onPress={() => onMeasurableChange(!isMeasurable)}
+        activeOpacity={0.7}
+      >
+        <View style={[styles.checkbox, isMeasurable && styles.checkboxChecked]}>
+          {isMeasurable && <Text style={styles.checkmark}>✓</Text>}
+        </View>
+        <View style={styles.checkboxTextContainer}>
+          <Text style={styles.checkboxLabel}>Track an amount?</Text>
+          <Text style={styles.checkboxHint}>
+            {isMeasurable
+              ? 'Log progress during the day; the habit is done once the target is reached'
+              : 'The habit is simply done or not done'}
+          </Text>
+        </View>
+      </TouchableOpacity>
+
+      {isMeasurable && (
+        <View style={styles.targetRow}>
+          <View>
+            <Text style={styles.label}>Daily Target</Text>
+            <TextInput
+              style={styles.targetInput}
+              value={targetValue.toString()}
+              onChangeText={handleTargetChange}
+              keyboardType="decimal-pad"
+              selectTextOnFocus
+            />
+          </View>
+          <View style={styles.unitColumn}>
+            <Text style={styles.label}>Unit</Text>
+            <TextInput
+              style={styles.unitInput}
+              value={unit}
+              onChangeText={onUnitChange}
+              placeholder="e.g., glasses"
+              placeholderTextColor="#555"
+              autoCapitalize="none"
+            />
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 20,
+  },
+  label: {
+    fontSize: 14,
+    color: '#888',
+    marginBottom: 8,
+  },
+  checkboxRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    padding: 16,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  checkbox: {
+    width: 24,
+    height: 24,
+    borderRadius: 6,
+    borderWidth: 2,
+    borderColor: '#555',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+    marginTop: 2,
+  },
+  checkboxChecked: {
+    backgroundColor: '#8BBFB8',
+    borderColor: '#8BBFB8',
+  },
+  checkmark: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  checkboxTextContainer: {
+    flex: 1,
+  },
+  checkboxLabel: {
+    fontSize: 16,
+    color: '#fff',
+    fontWeight: '500',
+    marginBottom: 4,
+  },
+  checkboxHint: {
+    fontSize: 13,
+    color: '#666',
+  },
+  targetRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  targetInput: {
+    width: 100,
+    height: 50,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#333',
+    color: '#fff',
+    fontSize: 24,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  unitColumn: {
+    flex: 1,
+  },
+  unitInput: {
+    height: 50,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#333',
+    paddingHorizontal: 16,
+    fontSize: 17,
+    color: '#fff',
+  },
+});
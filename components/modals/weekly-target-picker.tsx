@@ -0,0 +1,128 @@
+import React from 'react';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity } from 'react-native';
+
+interface WeeklyTargetPickerProps {
+  weeklyTarget: number;
+  onWeeklyTargetChange: (times: number) => void;
+}
+
+const QUICK_OPTIONS = [1, 2, 3, 4, 5];
+
+export function WeeklyTargetPicker({ weeklyTarget, onWeeklyTargetChange }: WeeklyTargetPickerProps) {
+  const handleTextChange = (text: string) => {
+    const num = parseInt(text, 10);
+    if (!isNaN(num) && num > 0 && num <= 7) {
+      onWeeklyTargetChange(num);
+    } else if (text === '') {
+      onWeeklyTargetChange(1);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Times Per Week</Text>
+
+      <View style={styles.inputRow}>
+        <TextInput
+          style={styles.input}
+          value={weeklyTarget.toString()}
+          onChangeText={handleTextChange}
+          keyboardType="number-pad"
+          selectTextOnFocus
+        />
+        <Text style={styles.timesLabel}>
+          {weeklyTarget === 1 ? 'time a week' : 'times a week'}
+        </Text>
+      </View>
+
+      <View style={styles.quickOptions}>
+        {QUICK_OPTIONS.map((times) => (
+          <TouchableOpacity
+            key={times}
+            onPress={() => onWeeklyTargetChange(times)}
+            style={[
+              styles.quickOption,
+              weeklyTarget === times && styles.quickOptionSelected,
+            ]}
+          >
+            <Text
+              style={[
+                styles.quickOptionText,
+                weeklyTarget === times && styles.quickOptionTextSelected,
+              ]}
+            >
+              {times}x
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.previewText}>
+        This habit appears every day until you&apos;ve done it {weeklyTarget}{' '}
+        {weeklyTarget === 1 ? 'time' : 'times'} that week (Monday to Sunday)
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 20,
+  },
+  label: {
+    fontSize: 14,
+    color: '#888',
+    marginBottom: 12,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  input: {
+    width: 80,
+    height: 50,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#333',
+    color: '#fff',
+    fontSize: 24,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  timesLabel: {
+    fontSize: 18,
+    color: '#888',
+  },
+  quickOptions: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 16,
+  },
+  quickOption: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  quickOptionSelected: {
+    backgroundColor: '#4CAF50',
+    borderColor: '#4CAF50',
+  },
+  quickOptionText: {
+    fontSize: 14,
+    color: '#888',
+  },
+  quickOptionTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  previewText: {
+    marginTop: 20,
+    fontSize: 13,
+    color: '#666',
+  },
+});
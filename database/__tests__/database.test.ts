@@ -0,0 +1,95 @@
+import * as SQLite from 'expo-sqlite';
+import { getDatabase, parseDateString } from '../database';
+import { getHabitsForDate, getHabitStreak, getUpcomingDueDates } from '../habit-repository';
+import { openTestDatabase } from './helpers/test-database';
+
+jest.mock('expo-sqlite', () => ({
+  openDatabaseAsync: jest.fn(),
+}));
+
+const TODAY = '2025-06-16';
+
+// The schema before start dates, revisions and the other later columns existed
+const BASELINE_SCHEMA = `
+  CREATE TABLE habits (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    schedule_type TEXT NOT NULL CHECK (schedule_type IN ('daily', 'custom', 'interval')),
+    interval_days INTEGER,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+
+  CREATE TABLE habit_days (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    habit_id TEXT NOT NULL,
+    day_of_week INTEGER NOT NULL CHECK (day_of_week >= 0 AND day_of_week <= 6),
+    FOREIGN KEY (habit_id) REFERENCES habits(id) ON DELETE CASCADE,
+    UNIQUE(habit_id, day_of_week)
+  );
+
+  CREATE TABLE habit_completions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    habit_id TEXT NOT NULL,
+    completed_date TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    FOREIGN KEY (habit_id) REFERENCES habits(id) ON DELETE CASCADE,
+    UNIQUE(habit_id, completed_date)
+  );
+
+  CREATE TABLE interval_habit_state (
+    habit_id TEXT PRIMARY KEY,
+    last_completed TEXT,
+    last_due TEXT,
+    next_due TEXT NOT NULL,
+    reschedule_if_missed INTEGER NOT NULL DEFAULT 0,
+    FOREIGN KEY (habit_id) REFERENCES habits(id) ON DELETE CASCADE
+  );
+`;
+
+let db: SQLite.SQLiteDatabase;
+
+// getDatabase() keeps its connection, so the upgrade runs once for the whole file
+beforeAll(async () => {
+  jest.useFakeTimers({ now: parseDateString(TODAY) });
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+
+  const baseline = await openTestDatabase();
+  await baseline.execAsync(`
+    ${BASELINE_SCHEMA}
+    -- Created on the 10th to start in ten days
+    INSERT INTO habits (id, name, schedule_type, interval_days, created_at, updated_at)
+    VALUES ('later', 'Water plants', 'interval', 3, '2025-06-10 12:00:00', '2025-06-10 12:00:00');
+    INSERT INTO interval_habit_state (habit_id, next_due) VALUES ('later', '2025-06-20');
+    -- Created on the 1st to start on the 5th, and done every time since
+    INSERT INTO habits (id, name, schedule_type, interval_days, created_at, updated_at)
+    VALUES ('running', 'Clean filter', 'interval', 3, '2025-06-01 12:00:00', '2025-06-01 12:00:00');
+    INSERT INTO interval_habit_state (habit_id, last_completed, last_due, next_due)
+    VALUES ('running', '2025-06-14', '2025-06-14', '2025-06-17');
+    INSERT INTO habit_completions (habit_id, completed_date)
+    VALUES ('running', '2025-06-05'), ('running', '2025-06-08'), ('running', '2025-06-11'), ('running', '2025-06-14');
+  `);
+  jest.mocked(SQLite.openDatabaseAsync).mockResolvedValue(baseline);
+
+  db = await getDatabase();
+});
+
+afterAll(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('migrating interval habits', () => {
+  it('keeps a habit that starts later off the schedule until its next due date', async () => {
+    expect(await getUpcomingDueDates(db, 'later', 2)).toEqual(['2025-06-20', '2025-06-23']);
+    for (const date of ['2025-06-10', '2025-06-13', TODAY, '2025-06-19']) {
+      const habits = await getHabitsForDate(db, parseDateString(date));
+      expect(habits.map((habit) => habit.id)).not.toContain('later');
+    }
+  });
+
+  it('keeps the cadence of a habit that was completed before its next due date', async () => {
+    expect(await getUpcomingDueDates(db, 'running', 1)).toEqual(['2025-06-17']);
+    expect(await getHabitStreak(db, 'running')).toEqual({ current: 4, best: 4 });
+  });
+});
@@ -0,0 +1,253 @@
+import * as SQLite from 'expo-sqlite';
+import { getDatabase } from '../database';
+import {
+  archiveHabit,
+  clearAllData,
+  completeHabit,
+  createHabit,
+  getAgenda,
+  getDailyCompletionStreak,
+  getHabitStreak,
+  getListedHabitsBetween,
+  getHabitsForDate,
+  getUpcomingDueDates,
+  getWeeklyHabits,
+  logHabitValue,
+  skipHabit,
+  unarchiveHabit,
+  uncompleteHabit,
+  unskipHabit,
+} from '../habit-repository';
+import { createPause } from '../pause-repository';
+import { recordScheduleRevision } from '../revision-repository';
+import { addDays, getWeeklyQuotaCount } from '../schedule';
+import { parseDateString } from '../database';
+
+jest.mock('expo-sqlite', () => ({
+  openDatabaseAsync: () => require('./helpers/test-database').openTestDatabase(),
+}));
+
+// A Monday, so weeks in these tests line up with the Monday-Sunday weeks the app uses
+const TODAY = '2025-06-16';
+
+let db: SQLite.SQLiteDatabase;
+
+beforeEach(async () => {
+  jest.useFakeTimers({ now: parseDateString(TODAY) });
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  db = await getDatabase();
+  await clearAllData(db);
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+// Complete a habit on every day from fromDate to toDate (inclusive)
+async function completeEveryDay(habitId: string, fromDate: string, toDate: string) {
+  for (let date = fromDate; date <= toDate; date = addDays(date, 1)) {
+    await completeHabit(db, habitId, parseDateString(date));
+  }
+}
+
+describe('getDailyCompletionStreak', () => {
+  it('counts every day all daily habits were done', async () => {
+    const habit = await createHabit(db, { name: 'Read', scheduleType: 'daily', startDate: addDays(TODAY, -20) });
+    await completeEveryDay(habit.id, addDays(TODAY, -20), TODAY);
+
+    expect(await getDailyCompletionStreak(db, parseDateString(TODAY))).toBe(21);
+  });
+
+  it("doesn't hold a weekly habit's partial first week against the streak", async () => {
+    const daily = await createHabit(db, { name: 'Read', scheduleType: 'daily', startDate: addDays(TODAY, -20) });
+    await completeEveryDay(daily.id, addDays(TODAY, -20), TODAY);
+    // Started on the Sunday before today, so its first week only had one day left
+    await createHabit(db, { name: 'Gym', scheduleType: 'weekly', weeklyTarget: 3, startDate: addDays(TODAY, -1) });
+
+    expect(await getDailyCompletionStreak(db, parseDateString(TODAY))).toBe(21);
+  });
+
+  it('breaks on a full week that ended below its weekly target', async () => {
+    const daily = await createHabit(db, { name: 'Read', scheduleType: 'daily', startDate: addDays(TODAY, -20) });
+    await completeEveryDay(daily.id, addDays(TODAY, -20), TODAY);
+    const weekly = await createHabit(db, {
+      name: 'Gym',
+      scheduleType: 'weekly',
+      weeklyTarget: 3,
+      startDate: addDays(TODAY, -7),
+    });
+    await completeHabit(db, weekly.id, parseDateString(addDays(TODAY, -5)));
+
+    // Last week (Mon-Sun) only had one of three, so the streak is today alone
+    expect(await getDailyCompletionStreak(db, parseDateString(TODAY))).toBe(1);
+  });
+});
+
+describe('weekly quota habits', () => {
+  it('count skips toward the target the same way the schedule does', async () => {
+    const habit = await createHabit(db, {
+      name: 'Gym',
+      scheduleType: 'weekly',
+      weeklyTarget: 2,
+      startDate: addDays(TODAY, -7),
+    });
+    await completeHabit(db, habit.id, parseDateString(TODAY));
+    await skipHabit(db, habit.id, parseDateString(addDays(TODAY, 1)));
+
+    const [weekly] = await getWeeklyHabits(db, parseDateString(TODAY));
+    const listed = await getHabitsForDate(db, parseDateString(addDays(TODAY, 2)));
+
+    expect(getWeeklyQuotaCount(weekly)).toBe(2);
+    expect(listed.map((listedHabit) => listedHabit.id)).not.toContain(habit.id);
+  });
+});
+
+describe('measurable habits', () => {
+  it('judges earlier days by the target in force back then', async () => {
+    const habit = await createHabit(db, {
+      name: 'Water',
+      scheduleType: 'daily',
+      kind: 'measurable',
+      targetValue: 6,
+      startDate: addDays(TODAY, -3),
+    });
+    for (let date = addDays(TODAY, -3); date < TODAY; date = addDays(date, 1)) {
+      await logHabitValue(db, habit.id, parseDateString(date), 6);
+    }
+
+    // Raise the target from today on, the way the edit form saves it
+    await db.runAsync('UPDATE habits SET target_value = ? WHERE id = ?', [8, habit.id]);
+    await recordScheduleRevision(db, habit.id, TODAY);
+
+    expect(await getHabitStreak(db, habit.id)).toEqual({ current: 3, best: 3 });
+  });
+
+  it('fills a completed past day up to the target in force on it', async () => {
+    const habit = await createHabit(db, { name: 'Water', scheduleType: 'daily', startDate: addDays(TODAY, -3) });
+    await completeHabit(db, habit.id, parseDateString(addDays(TODAY, -3)));
+
+    // Becomes measurable from today on, the way the edit form saves it
+    await db.runAsync('UPDATE habits SET kind = ?, target_value = ? WHERE id = ?', ['measurable', 8, habit.id]);
+    await recordScheduleRevision(db, habit.id, TODAY);
+    await completeHabit(db, habit.id, parseDateString(addDays(TODAY, -1)));
+    await completeHabit(db, habit.id, parseDateString(TODAY));
+
+    const values = await db.getAllAsync<{ completed_date: string; value: number | null }>(
+      'SELECT completed_date, value FROM habit_completions WHERE habit_id = ? ORDER BY completed_date',
+      [habit.id]
+    );
+    expect(values).toEqual([
+      { completed_date: addDays(TODAY, -3), value: null },
+      { completed_date: addDays(TODAY, -1), value: null },
+      { completed_date: TODAY, value: 8 },
+    ]);
+    expect(await getHabitStreak(db, habit.id)).toEqual({ current: 2, best: 2 });
+  });
+});
+
+describe('getUpcomingDueDates', () => {
+  it('projects interval habits like the agenda, around pauses and without writing', async () => {
+    const habit = await createHabit(db, {
+      name: 'Water plants',
+      scheduleType: 'interval',
+      intervalDays: 3,
+      startDate: addDays(TODAY, -6),
+    });
+    await completeHabit(db, habit.id, parseDateString(addDays(TODAY, -6)));
+    await completeHabit(db, habit.id, parseDateString(addDays(TODAY, -3)));
+    await createPause(db, { habitId: habit.id, startDate: addDays(TODAY, 3), endDate: addDays(TODAY, 4) });
+    const stateBefore = await db.getFirstAsync('SELECT * FROM interval_habit_state WHERE habit_id = ?', [habit.id]);
+
+    const upcoming = await getUpcomingDueDates(db, habit.id, 3);
+    const agendaDates = (await getAgenda(db, 14))
+      .filter((day) => day.items.some((item) => item.habitId === habit.id))
+      .map((day) => day.date);
+
+    // Due today, then moved past the pause to the 5th day, then three days after that
+    expect(upcoming).toEqual([TODAY, addDays(TODAY, 5), addDays(TODAY, 8)]);
+    expect(agendaDates.slice(0, 3)).toEqual(upcoming);
+    expect(await db.getFirstAsync('SELECT * FROM interval_habit_state WHERE habit_id = ?', [habit.id])).toEqual(
+      stateBefore
+    );
+  });
+});
+
+describe('getListedHabitsBetween', () => {
+  it('lists each day of a past week by what was due on it', async () => {
+    const weekStart = addDays(TODAY, -7);
+    const read = await createHabit(db, { name: 'Read', scheduleType: 'daily', startDate: addDays(TODAY, -14) });
+    const stretch = await createHabit(db, { name: 'Stretch', scheduleType: 'daily', startDate: addDays(weekStart, 2) });
+    await createPause(db, { habitId: read.id, startDate: addDays(weekStart, 4), endDate: addDays(weekStart, 4) });
+    await completeHabit(db, stretch.id, parseDateString(addDays(weekStart, 3)));
+    // Archived since, but still part of the days it was active on
+    await archiveHabit(db, stretch.id, parseDateString(addDays(weekStart, 5)));
+
+    const days = await getListedHabitsBetween(db, weekStart, addDays(weekStart, 6));
+    const listed = days.map((day) => day.items.map((item) => `${item.name}${item.done ? ' ✓' : ''}`));
+
+    expect(listed).toEqual([
+      ['Read'],
+      ['Read'],
+      ['Read', 'Stretch'],
+      ['Read', 'Stretch ✓'],
+      ['Stretch'],
+      ['Read'],
+      ['Read'],
+    ]);
+  });
+});
+
+describe('unarchiveHabit', () => {
+  it('excuses the days the habit spent archived', async () => {
+    const habit = await createHabit(db, { name: 'Read', scheduleType: 'daily', startDate: addDays(TODAY, -10) });
+    await completeEveryDay(habit.id, addDays(TODAY, -10), addDays(TODAY, -6));
+    await archiveHabit(db, habit.id, parseDateString(addDays(TODAY, -5)));
+
+    await unarchiveHabit(db, habit.id);
+    await completeHabit(db, habit.id, parseDateString(TODAY));
+
+    expect(await getHabitStreak(db, habit.id)).toEqual({ current: 6, best: 6 });
+  });
+});
+
+describe('undoing an interval habit entry', () => {
+  const getState = () =>
+    db.getFirstAsync('SELECT last_completed, last_due, next_due FROM interval_habit_state WHERE habit_id = ?', [
+      habitId,
+    ]);
+  let habitId: string;
+
+  beforeEach(async () => {
+    const habit = await createHabit(db, {
+      name: 'Water plants',
+      scheduleType: 'interval',
+      intervalDays: 3,
+      startDate: addDays(TODAY, -6),
+    });
+    habitId = habit.id;
+    await completeHabit(db, habitId, parseDateString(addDays(TODAY, -6)));
+    await completeHabit(db, habitId, parseDateString(addDays(TODAY, -3)));
+  });
+
+  it.each([TODAY, addDays(TODAY, -1)])('restores the schedule after uncompleting %s', async (date) => {
+    const stateBefore = await getState();
+
+    await completeHabit(db, habitId, parseDateString(date));
+    expect(await getState()).not.toEqual(stateBefore);
+    await uncompleteHabit(db, habitId, parseDateString(date));
+
+    expect(await getState()).toEqual(stateBefore);
+    expect(await getUpcomingDueDates(db, habitId, 2)).toEqual([TODAY, addDays(TODAY, 3)]);
+  });
+
+  it('restores the schedule after unskipping', async () => {
+    const stateBefore = await getState();
+
+    await skipHabit(db, habitId, parseDateString(TODAY));
+    expect(await getState()).not.toEqual(stateBefore);
+    await unskipHabit(db, habitId, parseDateString(TODAY));
+
+    expect(await getState()).toEqual(stateBefore);
+  });
+});
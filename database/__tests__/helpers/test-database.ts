@@ -0,0 +1,54 @@
+import * as SQLite from 'expo-sqlite';
+import { BindParams, SqlJsStatic } from 'sql.js';
+
+// The asm.js build needs no .wasm file, which the react-native test environment can't load
+const initSqlJs: () => Promise<SqlJsStatic> = require('sql.js/dist/sql-asm.js');
+
+// In-memory SQLite (sql.js) behind the part of the expo-sqlite async API the repositories use.
+// Tests mock expo-sqlite's openDatabaseAsync with this, so getDatabase() runs the real schema
+// and migrations against it.
+export async function openTestDatabase(): Promise<SQLite.SQLiteDatabase> {
+  const SQL = await initSqlJs();
+  const database = new SQL.Database();
+
+  const query = (source: string, params: unknown[] = []): Record<string, unknown>[] => {
+    const statement = database.prepare(source);
+    try {
+      statement.bind(params as BindParams);
+      const rows: Record<string, unknown>[] = [];
+      while (statement.step()) {
+        rows.push(statement.getAsObject());
+      }
+      return rows;
+    } finally {
+      statement.free();
+    }
+  };
+
+  const testDatabase = {
+    execAsync: async (source: string) => {
+      database.exec(source);
+    },
+    runAsync: async (source: string, params: unknown[] = []) => {
+      database.run(source, params as BindParams);
+      return {
+        changes: database.getRowsModified(),
+        lastInsertRowId: Number(query('SELECT last_insert_rowid() as id')[0].id),
+      };
+    },
+    getAllAsync: async (source: string, params: unknown[] = []) => query(source, params),
+    getFirstAsync: async (source: string, params: unknown[] = []) => query(source, params)[0] ?? null,
+    withTransactionAsync: async (task: () => Promise<void>) => {
+      database.exec('BEGIN');
+      try {
+        await task();
+        database.exec('COMMIT');
+      } catch (error) {
+        database.exec('ROLLBACK');
+        throw error;
+      }
+    },
+  };
+
+  return testDatabase as unknown as SQLite.SQLiteDatabase;
+}
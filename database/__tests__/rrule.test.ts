@@ -0,0 +1,49 @@
+import { formatRRule, parseRRule } from '../rrule';
+
+describe('parseRRule', () => {
+  it('parses the supported parts', () => {
+    const rule = parseRRule('RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR;BYMONTH=1,7;COUNT=5');
+
+    expect(rule).toEqual({
+      freq: 'MONTHLY',
+      interval: 2,
+      byDay: [{ weekday: 5, ordinal: -1 }],
+      byMonth: [1, 7],
+      count: 5,
+      dtstart: undefined,
+    });
+    expect(formatRRule(rule)).toBe('FREQ=MONTHLY;INTERVAL=2;BYMONTH=1,7;BYDAY=-1FR;COUNT=5');
+  });
+
+  it('reads a DTSTART line and UNTIL dates', () => {
+    const rule = parseRRule('DTSTART:20250601T090000Z\nRRULE:FREQ=WEEKLY;BYDAY=MO,TH;UNTIL=20251231T235959Z');
+
+    expect(rule.dtstart).toBe('2025-06-01');
+    expect(rule.until).toBe('2025-12-31');
+  });
+
+  it('accepts WKST=MO, the week start the app uses anyway', () => {
+    expect(parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO;WKST=MO').interval).toBe(2);
+  });
+
+  it.each([
+    ['FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1', 'BYSETPOS is not supported'],
+    ['FREQ=DAILY;BYHOUR=9', 'BYHOUR is not supported'],
+    ['FREQ=DAILY;BYMINUTE=30', 'BYMINUTE is not supported'],
+    ['FREQ=YEARLY;BYWEEKNO=20', 'BYWEEKNO is not supported'],
+    ['FREQ=WEEKLY;X-CUSTOM=1', 'X-CUSTOM is not supported'],
+    ['FREQ=WEEKLY;INTERVAL=2;WKST=SU', 'Weeks must start on Monday (WKST=MO)'],
+  ])('rejects %s', (text, message) => {
+    expect(() => parseRRule(text)).toThrow(message);
+  });
+
+  it.each([
+    ['', 'Rule is empty'],
+    ['FREQ=HOURLY', 'FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY'],
+    ['FREQ=DAILY;INTERVAL=0', 'Invalid INTERVAL "0"'],
+    ['FREQ=MONTHLY;BYDAY=0MO', 'Invalid BYDAY value "0MO"'],
+    ['FREQ=DAILY;COUNT=3;UNTIL=20250101', 'COUNT and UNTIL cannot both be set'],
+  ])('rejects the invalid rule "%s"', (text, message) => {
+    expect(() => parseRRule(text)).toThrow(message);
+  });
+});
@@ -3,6 +3,10 @@ import * as SQLite from 'expo-sqlite';
 let db: SQLite.SQLiteDatabase | null = null;
 let schemaInitialized = false;
 
+// Allowed values for habits.schedule_type - keep in sync with HabitScheduleType
+const SCHEDULE_TYPES = ['daily', 'custom', 'interval', 'weekly', 'monthly', 'rrule'];
+const SCHEDULE_TYPE_CHECK = `CHECK (schedule_type IN (${SCHEDULE_TYPES.map((type) => `'${type}'`).join(', ')}))`;
+
 export async function getDatabase(): Promise<SQLite.SQLiteDatabase> {
   if (!db) {
     db = await SQLite.openDatabaseAsync('habits.db');
@@ -22,7 +26,7 @@ async function initializeSchema(database: SQLite.SQLiteDatabase): Promise<void>
     CREATE TABLE IF NOT EXISTS habits (
       id TEXT PRIMARY KEY,
       name TEXT NOT NULL,
-      schedule_type TEXT NOT NULL CHECK (schedule_type IN ('daily', 'custom', 'interval')),
+      schedule_type TEXT NOT NULL ${SCHEDULE_TYPE_CHECK},
       interval_days INTEGER,
       created_at TEXT NOT NULL DEFAULT (datetime('now')),
       updated_at TEXT NOT NULL DEFAULT (datetime('now'))
@@ -54,11 +58,67 @@ async function initializeSchema(database: SQLite.SQLiteDatabase): Promise<void>
       FOREIGN KEY (habit_id) REFERENCES habits(id) ON DELETE CASCADE
     );
 
+    -- Deliberately skipped occurrences (rest day, sick day): neither done nor missed
+    CREATE TABLE IF NOT EXISTS habit_skips (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      habit_id TEXT NOT NULL,
+      skipped_date TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      FOREIGN KEY (habit_id) REFERENCES habits(id) ON DELETE CASCADE,
+      UNIQUE(habit_id, skipped_date)
+    );
+
+    -- Vacation / pause periods; habit_id NULL pauses every habit. end_date NULL means until resumed
+    CREATE TABLE IF NOT EXISTS habit_pauses (
+      id TEXT PRIMARY KEY,
+      habit_id TEXT,
+      start_date TEXT NOT NULL,
+      end_date TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      FOREIGN KEY (habit_id) REFERENCES habits(id) ON DELETE CASCADE
+    );
+
+    -- Past schedules of a habit, so earlier dates are judged by the schedule in force back then.
+    -- Each row holds the schedule from effective_from until the next row; days is comma-separated
+    CREATE TABLE IF NOT EXISTS habit_schedule_revisions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      habit_id TEXT NOT NULL,
+      effective_from TEXT NOT NULL,
+      days TEXT,
+      interval_days INTEGER,
+      weekly_target INTEGER,
+      month_day INTEGER,
+      month_week INTEGER,
+      month_weekday INTEGER,
+      rrule TEXT,
+      rrule_start TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      FOREIGN KEY (habit_id) REFERENCES habits(id) ON DELETE CASCADE,
+      UNIQUE(habit_id, effective_from)
+    );
+
+    -- One free-form reflection per day: mood and energy from 1 to 5, either may be left out
+    CREATE TABLE IF NOT EXISTS journal_entries (
+      entry_date TEXT PRIMARY KEY,
+      mood INTEGER CHECK (mood BETWEEN 1 AND 5),
+      energy INTEGER CHECK (energy BETWEEN 1 AND 5),
+      text TEXT,
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    -- App preferences as key/value pairs; values are stored as text
+    CREATE TABLE IF NOT EXISTS settings (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL
+    );
 
     CREATE INDEX IF NOT EXISTS idx_habit_completions_date ON habit_completions(completed_date);
     CREATE INDEX IF NOT EXISTS idx_habit_completions_habit ON habit_completions(habit_id);
     CREATE INDEX IF NOT EXISTS idx_habit_days_habit ON habit_days(habit_id);
     CREATE INDEX IF NOT EXISTS idx_interval_state_due ON interval_habit_state(next_due);
+    CREATE INDEX IF NOT EXISTS idx_habit_skips_habit ON habit_skips(habit_id);
+    CREATE INDEX IF NOT EXISTS idx_habit_pauses_habit ON habit_pauses(habit_id);
+    CREATE INDEX IF NOT EXISTS idx_habit_schedule_revisions_habit ON habit_schedule_revisions(habit_id);
   `);
 
   // Migration: Add one_time_date column to habits table
@@ -84,6 +144,121 @@ async function initializeSchema(database: SQLite.SQLiteDatabase): Promise<void>
   if (!hasLastDue) {
     await database.execAsync(`ALTER TABLE interval_habit_state ADD COLUMN last_due TEXT;`);
   }
+
+  // Migration: Measurable habits (target amount + unit) and logged amounts on completions
+  await addColumnIfMissing(database, 'habits', 'kind', `TEXT NOT NULL DEFAULT 'boolean'`);
+  await addColumnIfMissing(database, 'habits', 'target_value', 'REAL');
+  await addColumnIfMissing(database, 'habits', 'unit', 'TEXT');
+  await addColumnIfMissing(database, 'habit_completions', 'value', 'REAL');
+
+  // Migration: Weekly quota habits ("N times per week")
+  await addColumnIfMissing(database, 'habits', 'weekly_target', 'INTEGER');
+
+  // Migration: Monthly habits - either a day of the month or the nth weekday of the month
+  await addColumnIfMissing(database, 'habits', 'month_day', 'INTEGER');
+  await addColumnIfMissing(database, 'habits', 'month_week', 'INTEGER');
+  await addColumnIfMissing(database, 'habits', 'month_weekday', 'INTEGER');
+
+  // Migration: RFC 5545 RRULE schedules, anchored at their start date (DTSTART)
+  await addColumnIfMissing(database, 'habits', 'rrule', 'TEXT');
+  await addColumnIfMissing(database, 'habits', 'rrule_start', 'TEXT');
+
+  // Migration: Archived habits leave the schedule from this date (YYYY-MM-DD) but keep their history
+  await addColumnIfMissing(database, 'habits', 'archived_date', 'TEXT');
+
+  // Migration: Active date range; existing habits start on the day they were created,
+  // one-time habits only span their own day. Interval habits could be created to start later,
+  // so their cadence starts at the stored next due date, or at their first completion if earlier.
+  await addColumnIfMissing(database, 'habits', 'start_date', 'TEXT');
+  await addColumnIfMissing(database, 'habits', 'end_date', 'TEXT');
+  await database.execAsync(
+    `UPDATE habits
+     SET start_date = COALESCE(
+         one_time_date,
+         CASE WHEN schedule_type = 'interval' THEN (
+           SELECT MIN(anchor) FROM (
+             SELECT completed_date AS anchor FROM habit_completions WHERE habit_id = habits.id
+             UNION ALL
+             SELECT next_due FROM interval_habit_state WHERE habit_id = habits.id
+           )
+         ) END,
+         date(created_at, 'localtime')
+       ),
+       end_date = one_time_date
+     WHERE start_date IS NULL;`
+  );
+
+  // Migration: Habits without schedule revisions get their current schedule as the first one
+  await database.execAsync(
+    `INSERT INTO habit_schedule_revisions (habit_id, effective_from, days, interval_days, weekly_target,
+       month_day, month_week, month_weekday, rrule, rrule_start)
+     SELECT h.id, h.start_date,
+       (SELECT group_concat(day_of_week) FROM (
+         SELECT day_of_week FROM habit_days WHERE habit_id = h.id ORDER BY day_of_week
+       )),
+       h.interval_days, h.weekly_target, h.month_day, h.month_week, h.month_weekday, h.rrule, h.rrule_start
+     FROM habits h
+     WHERE NOT EXISTS (SELECT 1 FROM habit_schedule_revisions r WHERE r.habit_id = h.id);`
+  );
+
+  // Migration: Optional note on each completion, e.g. "5k in 27 min"
+  await addColumnIfMissing(database, 'habit_completions', 'note', 'TEXT');
+
+  // Migration: Schedule revisions also record what counted as done (kind and target), so
+  // earlier days keep being judged by them; existing revisions take the habit's current ones
+  await addColumnIfMissing(database, 'habit_schedule_revisions', 'kind', 'TEXT');
+  await addColumnIfMissing(database, 'habit_schedule_revisions', 'target_value', 'REAL');
+  await database.execAsync(
+    `UPDATE habit_schedule_revisions
+     SET kind = (SELECT kind FROM habits WHERE id = habit_id),
+       target_value = (SELECT target_value FROM habits WHERE id = habit_id)
+     WHERE kind IS NULL;`
+  );
+
+  // Migration: Widen the schedule_type CHECK constraint when new schedule types were added
+  await migrateScheduleTypeConstraint(database);
+}
+
+// SQLite cannot alter a CHECK constraint in place, so rebuild the habits table with the
+// current constraint, keeping every column added by earlier migrations
+async function migrateScheduleTypeConstraint(database: SQLite.SQLiteDatabase): Promise<void> {
+  const habitsTable = await database.getFirstAsync<{ sql: string }>(
+    `SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'habits'`
+  );
+  if (!habitsTable || habitsTable.sql.includes(SCHEDULE_TYPE_CHECK)) return;
+
+  const createSql = habitsTable.sql
+    .replace(/CHECK\s*\(\s*schedule_type IN \([^)]*\)\s*\)/, SCHEDULE_TYPE_CHECK)
+    .replace(/^CREATE TABLE (IF NOT EXISTS )?"?habits"?/, 'CREATE TABLE habits_new');
+
+  // Foreign keys must be off so dropping the old table doesn't cascade into completions
+  await database.execAsync('PRAGMA foreign_keys = OFF;');
+  try {
+    await database.withTransactionAsync(async () => {
+      await database.execAsync(`
+        DROP TABLE IF EXISTS habits_new;
+        ${createSql};
+        INSERT INTO habits_new SELECT * FROM habits;
+        DROP TABLE habits;
+        ALTER TABLE habits_new RENAME TO habits;
+      `);
+    });
+  } finally {
+    await database.execAsync('PRAGMA foreign_keys = ON;');
+  }
+}
+
+// Add a column to an existing table unless a previous migration already did
+async function addColumnIfMissing(
+  database: SQLite.SQLiteDatabase,
+  table: string,
+  column: string,
+  definition: string
+): Promise<void> {
+  const columns = await database.getAllAsync<{ name: string }>(`PRAGMA table_info(${table})`);
+  if (!columns.some((existing) => existing.name === column)) {
+    await database.execAsync(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition};`);
+  }
 }
 
 // Utility function to format date as YYYY-MM-DD
@@ -94,6 +269,34 @@ export function formatDateString(date: Date): string {
   return `${year}-${month}-${day}`;
 }
 
+// Utility function to parse a YYYY-MM-DD string as a local date (not UTC)
+export function parseDateString(dateString: string): Date {
+  const [year, month, day] = dateString.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+// Get the Monday that starts the week containing `date` (weeks run Monday-Sunday)
+export function getWeekStartDate(date: Date): Date {
+  const weekStart = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const daysSinceMonday = (weekStart.getDay() + 6) % 7;
+  weekStart.setDate(weekStart.getDate() - daysSinceMonday);
+  return weekStart;
+}
+
+// Get the dates (YYYY-MM-DD) of a month laid out in Monday-first weeks, padded with nulls
+export function getMonthCells(year: number, month: number): (string | null)[] {
+  const firstWeekday = (new Date(year, month, 1).getDay() + 6) % 7;
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+  const cells: (string | null)[] = Array(firstWeekday).fill(null);
+  for (let day = 1; day <= daysInMonth; day++) {
+    cells.push(formatDateString(new Date(year, month, day)));
+  }
+  while (cells.length % 7 !== 0) {
+    cells.push(null);
+  }
+  return cells;
+}
+
 // Generate a unique ID
 export function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
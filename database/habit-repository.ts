@@ -1,13 +1,43 @@
 import * as SQLite from 'expo-sqlite';
-import { formatDateString, generateId } from './database';
+import { formatDateString, generateId, getWeekStartDate, parseDateString } from './database';
+import { formatRRule, parseRRule } from './rrule';
+import { createPause, getPauses, isPausedOn, isPausedWithin } from './pause-repository';
+import { getScheduleRevisions, recordScheduleRevision } from './revision-repository';
 import {
+  addDays,
+  getLastActiveDate,
+  getNextDueDate,
+  getRevisionOn,
+  getScheduleOn,
+  getUpcomingIntervalDates,
+  getWeekRange,
+  getWeeklyCount,
+  isActiveOn,
+  isDueOn,
+  occurrencesBetween,
+} from './schedule';
+import {
+  AgendaDay,
+  CompletionNote,
+  DaySummary,
   Habit,
+  HabitCompletionEntry,
+  HabitDayState,
+  HabitHistoryDay,
+  HabitStreak,
+  HabitStrength,
+  HabitStrengthPoint,
   HabitWithCompletion,
   HabitWithDays,
+  HabitCompletionRate,
   IntervalHabit,
+  OccurrenceTally,
+  WeeklyHabit,
   NewHabit,
   HabitRow,
+  ScheduledHabit,
   HabitScheduleType,
+  HabitKind,
 } from '@/types/habit';
 
 // Helper to map database row to Habit object
@@ -16,55 +46,110 @@ function mapRowToHabit(row: HabitRow): Habit {
     id: row.id,
     name: row.name,
     scheduleType: row.schedule_type as HabitScheduleType,
+    kind: (row.kind as HabitKind | undefined) ?? 'boolean',
+    targetValue: row.target_value ?? undefined,
+    unit: row.unit ?? undefined,
     intervalDays: row.interval_days ?? undefined,
+    weeklyTarget: row.weekly_target ?? undefined,
+    monthDay: row.month_day ?? undefined,
+    monthWeek: row.month_week ?? undefined,
+    monthWeekday: row.month_weekday ?? undefined,
+    rrule: row.rrule ?? undefined,
+    rruleStart: row.rrule_start ?? undefined,
     oneTimeDate: row.one_time_date ?? undefined,
+    archivedDate: row.archived_date ?? undefined,
+    startDate: row.start_date ?? formatDateString(new Date(row.created_at)),
+    endDate: row.end_date ?? undefined,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   };
 }
 
-// Helper to auto-advance overdue interval habits that don't have reschedule_if_missed enabled
-// This ensures missed habits automatically move to the next scheduled date rather than disappearing
-async function autoAdvanceOverdueIntervalHabits(
-  db: SQLite.SQLiteDatabase,
-  referenceDate: Date
-): Promise<void> {
-  const dateString = formatDateString(referenceDate);
+// SQL condition for a completion row that counts as done: boolean habits only need the row,
+// measurable habits need the logged amount to reach the habit's target. Kind and target come
+// from the schedule revision in force on the completion's date (dates before the first revision
+// fall back to it), so changing them later doesn't rewrite earlier days.
+function completedCondition(completionAlias = 'c', habitAlias = 'h'): string {
+  const revisionValue = (column: string) =>
+    `COALESCE(
+      (SELECT r.${column} FROM habit_schedule_revisions r
+       WHERE r.habit_id = ${habitAlias}.id AND r.effective_from <= ${completionAlias}.completed_date
+       ORDER BY r.effective_from DESC LIMIT 1),
+      (SELECT r.${column} FROM habit_schedule_revisions r
+       WHERE r.habit_id = ${habitAlias}.id
+       ORDER BY r.effective_from ASC LIMIT 1),
+      ${habitAlias}.${column})`;
+  return `(${revisionValue('kind')} <> 'measurable' OR ${completionAlias}.value >= ${revisionValue('target_value')})`;
+}
 
-  const overdueHabits = await db.getAllAsync<{ habit_id: string; next_due: string; interval_days: number }>(
-    `SELECT ihs.habit_id, ihs.next_due, h.interval_days
-     FROM interval_habit_state ihs
-     JOIN habits h ON h.id = ihs.habit_id
-     WHERE ihs.reschedule_if_missed = 0 AND ihs.next_due < ?`,
-    [dateString]
+// Load habits (archived ones included) with everything the schedule module needs:
+// habit days, completions that count as done, skips, pauses and schedule revisions
+async function getScheduledHabits(
+  db: SQLite.SQLiteDatabase,
+  habitId?: string
+): Promise<ScheduledHabit[]> {
+  const params = habitId ? [habitId] : [];
+  const rows = await db.getAllAsync<HabitRow & { reschedule_if_missed: number | null }>(
+    `SELECT h.*, ihs.reschedule_if_missed
+     FROM habits h
+     LEFT JOIN interval_habit_state ihs ON h.id = ihs.habit_id
+     ${habitId ? 'WHERE h.id = ?' : ''}
+     ORDER BY h.created_at ASC`,
+    params
   );
+  const days = await db.getAllAsync<{ habit_id: string; day_of_week: number }>(
+    `SELECT habit_id, day_of_week FROM habit_days ${habitId ? 'WHERE habit_id = ?' : ''} ORDER BY day_of_week`,
+    params
+  );
+  const completions = await db.getAllAsync<{ habit_id: string; completed_date: string }>(
+    `SELECT c.habit_id, c.completed_date FROM habit_completions c
+     JOIN habits h ON h.id = c.habit_id
+     WHERE ${completedCondition()} ${habitId ? 'AND c.habit_id = ?' : ''}
+     ORDER BY c.completed_date ASC`,
+    params
+  );
+  const skips = await db.getAllAsync<{ habit_id: string; skipped_date: string }>(
+    `SELECT habit_id, skipped_date FROM habit_skips ${habitId ? 'WHERE habit_id = ?' : ''}
+     ORDER BY skipped_date ASC`,
+    params
+  );
+  const pauses = await getPauses(db);
+  const revisions = await getScheduleRevisions(db, habitId);
 
-  for (const habit of overdueHabits) {
-    // Parse due date as local date (not UTC) to avoid timezone issues
-    const [year, month, day] = habit.next_due.split('-').map(Number);
-
-    // Calculate days passed using UTC to avoid DST issues
-    const dueDateUtc = Date.UTC(year, month - 1, day);
-    const todayUtc = Date.UTC(referenceDate.getFullYear(), referenceDate.getMonth(), referenceDate.getDate());
-    const daysPassed = Math.floor((todayUtc - dueDateUtc) / (1000 * 60 * 60 * 24));
-
-    // Calculate how many full intervals fit in that time, plus one to get to the future
-    const intervalsToAdd = Math.ceil(daysPassed / habit.interval_days);
-    const newDueDate = new Date(year, month - 1, day);
-    newDueDate.setDate(newDueDate.getDate() + (intervalsToAdd * habit.interval_days));
+  return rows.map((row) => ({
+    ...mapRowToHabit(row),
+    days: days.filter((d) => d.habit_id === row.id).map((d) => d.day_of_week),
+    rescheduleIfMissed: row.reschedule_if_missed === 1,
+    completedDates: completions.filter((c) => c.habit_id === row.id).map((c) => c.completed_date),
+    skippedDates: skips.filter((s) => s.habit_id === row.id).map((s) => s.skipped_date),
+    pauses,
+    revisions: revisions.filter((revision) => revision.habitId === row.id),
+  }));
+}
 
-    if (__DEV__) {
-      console.log('[autoAdvance] Advancing habit', habit.habit_id, 'from', habit.next_due, 'to', formatDateString(newDueDate), 'daysPassed:', daysPassed, 'intervalsToAdd:', intervalsToAdd);
-    }
+// interval_habit_state only caches where an interval habit's schedule stands; reads replay the
+// completion history instead. Rewrite the cache after the habit's history or settings changed.
+export async function refreshIntervalState(
+  db: SQLite.SQLiteDatabase,
+  habitId: string
+): Promise<void> {
+  const [habit] = await getScheduledHabits(db, habitId);
+  if (habit?.scheduleType !== 'interval') return;
 
-    const lastDueDate = new Date(newDueDate);
-    lastDueDate.setDate(lastDueDate.getDate() - habit.interval_days);
+  const today = new Date();
+  const todayString = formatDateString(today);
+  const nextDue = getNextDueDate(habit, today);
+  const lastCompleted = habit.completedDates.filter((date) => date <= todayString).pop();
+  const lastDue = occurrencesBetween(habit, habit.startDate, todayString)
+    .filter((date) => date < nextDue)
+    .pop();
 
-    await db.runAsync(
-      `UPDATE interval_habit_state SET next_due = ?, last_due = ? WHERE habit_id = ?`,
-      [formatDateString(newDueDate), formatDateString(lastDueDate), habit.habit_id]
-    );
-  }
+  await db.runAsync(
+    `UPDATE interval_habit_state
+     SET last_completed = ?, last_due = ?, next_due = ?
+     WHERE habit_id = ?`,
+    [lastCompleted ?? null, lastDue ?? null, nextDue, habitId]
+  );
 }
 
 // Create a new habit
@@ -76,16 +161,42 @@ export async function createHabit(
   const now = new Date().toISOString();
   const oneTimeDate =
     newHabit.scheduleType === 'custom' ? newHabit.oneTimeDate ?? null : null;
+  const kind: HabitKind = newHabit.kind === 'measurable' && newHabit.targetValue ? 'measurable' : 'boolean';
+  const targetValue = kind === 'measurable' ? newHabit.targetValue : undefined;
+  const unit = kind === 'measurable' ? newHabit.unit?.trim() || undefined : undefined;
+  const monthly = newHabit.scheduleType === 'monthly' ? newHabit : undefined;
+  // One-time habits are only active on their own day
+  const startDate = oneTimeDate ?? newHabit.startDate ?? formatDateString(new Date());
+  const endDate = oneTimeDate ?? newHabit.endDate;
+  // Normalize the rule so invalid text never reaches the database
+  const rrule = newHabit.scheduleType === 'rrule' ? formatRRule(parseRRule(newHabit.rrule)) : undefined;
+  const rruleStart =
+    newHabit.scheduleType === 'rrule'
+      ? newHabit.rruleStart ?? parseRRule(newHabit.rrule).dtstart ?? startDate
+      : undefined;
 
   await db.runAsync(
-    `INSERT INTO habits (id, name, schedule_type, interval_days, one_time_date, created_at, updated_at)
-     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    `INSERT INTO habits (id, name, schedule_type, kind, target_value, unit, interval_days, weekly_target,
+       month_day, month_week, month_weekday, rrule, rrule_start, one_time_date, start_date, end_date,
+       created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     [
       id,
       newHabit.name,
       newHabit.scheduleType,
+      kind,
+      targetValue ?? null,
+      unit ?? null,
       newHabit.scheduleType === 'interval' ? newHabit.intervalDays : null,
+      newHabit.scheduleType === 'weekly' ? newHabit.weeklyTarget : null,
+      monthly?.monthDay ?? null,
+      monthly?.monthWeek ?? null,
+      monthly?.monthWeekday ?? null,
+      rrule ?? null,
+      rruleStart ?? null,
       oneTimeDate,
+      startDate,
+      endDate ?? null,
       now,
       now,
     ]
@@ -103,7 +214,6 @@ export async function createHabit(
 
   // Handle interval habits - insert initial state
   if (newHabit.scheduleType === 'interval') {
-    const startDate = newHabit.startDate || formatDateString(new Date());
     const rescheduleIfMissed = newHabit.rescheduleIfMissed ? 1 : 0;
     await db.runAsync(
       `INSERT INTO interval_habit_state (habit_id, next_due, reschedule_if_missed) VALUES (?, ?, ?)`,
@@ -111,90 +221,145 @@ export async function createHabit(
     );
   }
 
+  await recordScheduleRevision(db, id, startDate);
+
   return {
     id,
     name: newHabit.name,
     scheduleType: newHabit.scheduleType,
+    kind,
+    targetValue,
+    unit,
     intervalDays: newHabit.scheduleType === 'interval' ? newHabit.intervalDays : undefined,
+    weeklyTarget: newHabit.scheduleType === 'weekly' ? newHabit.weeklyTarget : undefined,
+    monthDay: monthly?.monthDay,
+    monthWeek: monthly?.monthWeek,
+    monthWeekday: monthly?.monthWeekday,
+    rrule,
+    rruleStart,
     oneTimeDate: newHabit.scheduleType === 'custom' ? newHabit.oneTimeDate : undefined,
+    startDate,
+    endDate,
     createdAt: now,
     updatedAt: now,
   };
 }
 
-// Get all habits for a specific date (for Today view)
+// Helper to decide whether a habit belongs on a day's list: it is due, or it is active and unpaused
+// and something was logged or skipped that day (hasEntry: a completion row exists, even below target)
+function isListedOn(habit: ScheduledHabit, date: Date, hasEntry: boolean): boolean {
+  const dateString = formatDateString(date);
+  return (
+    isDueOn(habit, date) ||
+    (isActiveOn(habit, dateString) &&
+      !isPausedOn(habit.pauses, habit.id, dateString) &&
+      (hasEntry || habit.skippedDates.includes(dateString)))
+  );
+}
+
+// Get all habits for a specific date (for Today view), each with its Mon-Sun progress for that week
+// Habits something was logged for on that date are included even when their schedule has moved on
 export async function getHabitsForDate(
   db: SQLite.SQLiteDatabase,
   date: Date
 ): Promise<HabitWithCompletion[]> {
-  const dayOfWeek = date.getDay(); // 0 = Sunday, 1 = Monday, etc.
   const dateString = formatDateString(date);
 
-  // Auto-advance overdue interval habits
-  await autoAdvanceOverdueIntervalHabits(db, date);
+  const habits = await getScheduledHabits(db);
+  const entries = await db.getAllAsync<{ habit_id: string; value: number | null; note: string | null }>(
+    `SELECT habit_id, value, note FROM habit_completions WHERE completed_date = ?`,
+    [dateString]
+  );
+  const entriesById = new Map(entries.map((entry) => [entry.habit_id, entry]));
+
+  const dueHabits = habits.filter((habit) => isListedOn(habit, date, entriesById.has(habit.id)));
 
-  // Debug: Check interval habit states
   if (__DEV__) {
-    const intervalStates = await db.getAllAsync<{ habit_id: string; next_due: string; reschedule_if_missed: number }>(
-      `SELECT habit_id, next_due, reschedule_if_missed FROM interval_habit_state`
-    );
-    console.log('[getHabitsForDate] Query date:', dateString, 'dayOfWeek:', dayOfWeek);
-    console.log('[getHabitsForDate] Interval states:', intervalStates);
+    console.log('[getHabitsForDate] Query date:', dateString, 'due:', dueHabits.length, 'of', habits.length);
+  }
+
+  // Week progress comes from the history already loaded above, so it costs no query per habit
+  const today = formatDateString(new Date());
+  const weekStart = getWeekStartDate(date);
+  const weekDates = Array.from({ length: 7 }, (_, index) => {
+    const weekDate = new Date(weekStart);
+    weekDate.setDate(weekDate.getDate() + index);
+    return weekDate;
+  });
+
+  return dueHabits.map((habit) => ({
+    ...getScheduleOn(habit, dateString),
+    completed: habit.completedDates.includes(dateString),
+    value: entriesById.get(habit.id)?.value ?? undefined,
+    skipped: habit.skippedDates.includes(dateString),
+    note: entriesById.get(habit.id)?.note ?? undefined,
+    weekProgress: weekDates.map((weekDate) => getDayState(habit, weekDate, today)),
+  }));
+}
+
+// Count each day's listed habits from fromDate to toDate (YYYY-MM-DD, inclusive) the way the
+// Today view does: skipped habits count as neither done nor due
+export async function getDaySummaries(
+  db: SQLite.SQLiteDatabase,
+  fromDate: string,
+  toDate: string
+): Promise<DaySummary[]> {
+  const habits = await getScheduledHabits(db);
+  const entries = await db.getAllAsync<{ habit_id: string; completed_date: string }>(
+    `SELECT habit_id, completed_date FROM habit_completions WHERE completed_date BETWEEN ? AND ?`,
+    [fromDate, toDate]
+  );
+  const entryKeys = new Set(entries.map((entry) => `${entry.habit_id}:${entry.completed_date}`));
+
+  const summaries: DaySummary[] = [];
+  const cursor = parseDateString(fromDate);
+  while (formatDateString(cursor) <= toDate) {
+    const dateString = formatDateString(cursor);
+    let total = 0;
+    let completed = 0;
+    for (const habit of habits) {
+      if (!isListedOn(habit, cursor, entryKeys.has(`${habit.id}:${dateString}`))) continue;
+      if (habit.skippedDates.includes(dateString)) continue;
+      total++;
+      if (habit.completedDates.includes(dateString)) completed++;
+    }
+    summaries.push({ date: dateString, total, completed });
+    cursor.setDate(cursor.getDate() + 1);
   }
 
-  const rows = await db.getAllAsync<HabitRow & { completed: number }>(
-    `SELECT
-      h.id,
-      h.name,
-      h.schedule_type,
-      h.interval_days,
-      h.one_time_date,
-      h.created_at,
-      h.updated_at,
-      CASE WHEN c.id IS NOT NULL THEN 1 ELSE 0 END as completed
-    FROM habits h
-    LEFT JOIN habit_completions c
-      ON h.id = c.habit_id AND c.completed_date = ?
-    WHERE
-      h.schedule_type = 'daily'
-      OR (h.schedule_type = 'custom' AND h.one_time_date IS NULL AND EXISTS (
-        SELECT 1 FROM habit_days hd WHERE hd.habit_id = h.id AND hd.day_of_week = ?
-      ))
-      OR (h.schedule_type = 'custom' AND h.one_time_date = ?)
-      OR (h.schedule_type = 'interval' AND (
-        c.id IS NOT NULL
-        OR EXISTS (
-          SELECT 1 FROM interval_habit_state ihs
-          WHERE ihs.habit_id = h.id AND (
-            ihs.next_due = ?
-            OR (ihs.reschedule_if_missed = 1 AND ihs.next_due < ?)
-            OR (
-              ihs.reschedule_if_missed = 1
-              AND ihs.last_due IS NOT NULL
-              AND ihs.last_completed IS NOT NULL
-              AND ihs.last_due <= ?
-              AND ihs.last_completed > ?
-            )
-            OR (
-              ihs.reschedule_if_missed = 0
-              AND ihs.last_due = ?
-              AND (ihs.last_completed IS NULL OR ihs.last_completed <> ihs.last_due)
-            )
-          )
-        )
-      ))
-    ORDER BY h.created_at ASC`,
-    [dateString, dayOfWeek, dateString, dateString, dateString, dateString, dateString, dateString]
+  return summaries;
+}
+
+// Get the habits listed on each day from fromDate to toDate (YYYY-MM-DD, inclusive) the way the
+// Today view lists them, for the planner: each day follows the schedule, pauses and revisions in
+// force on it, so past and future weeks show what was or will be due then
+export async function getListedHabitsBetween(
+  db: SQLite.SQLiteDatabase,
+  fromDate: string,
+  toDate: string
+): Promise<AgendaDay[]> {
+  const habits = await getScheduledHabits(db);
+  const entries = await db.getAllAsync<{ habit_id: string; completed_date: string }>(
+    `SELECT habit_id, completed_date FROM habit_completions WHERE completed_date BETWEEN ? AND ?`,
+    [fromDate, toDate]
   );
+  const entryKeys = new Set(entries.map((entry) => `${entry.habit_id}:${entry.completed_date}`));
 
-  if (__DEV__) {
-    console.log('[getHabitsForDate] Found habits:', rows.length, rows.map(r => ({ name: r.name, type: r.schedule_type })));
+  const days: AgendaDay[] = [];
+  for (let dateString = fromDate; dateString <= toDate; dateString = addDays(dateString, 1)) {
+    const date = parseDateString(dateString);
+    const items = habits
+      .filter((habit) => isListedOn(habit, date, entryKeys.has(`${habit.id}:${dateString}`)))
+      .map((habit) => ({
+        habitId: habit.id,
+        name: habit.name,
+        scheduleType: habit.scheduleType,
+        done: habit.completedDates.includes(dateString),
+      }));
+    days.push({ date: dateString, items });
   }
 
-  return rows.map((row) => ({
-    ...mapRowToHabit(row),
-    completed: row.completed === 1,
-  }));
+  return days;
 }
 
 // Get all daily habits
@@ -202,7 +367,7 @@ export async function getDailyHabits(
   db: SQLite.SQLiteDatabase
 ): Promise<Habit[]> {
   const rows = await db.getAllAsync<HabitRow>(
-    `SELECT * FROM habits WHERE schedule_type = 'daily' ORDER BY created_at ASC`
+    `SELECT * FROM habits WHERE schedule_type = 'daily' AND archived_date IS NULL ORDER BY created_at ASC`
   );
   return rows.map(mapRowToHabit);
 }
@@ -213,7 +378,7 @@ export async function getCustomHabits(
 ): Promise<HabitWithDays[]> {
   const rows = await db.getAllAsync<HabitRow>(
     `SELECT * FROM habits
-     WHERE schedule_type = 'custom' AND one_time_date IS NULL
+     WHERE schedule_type = 'custom' AND one_time_date IS NULL AND archived_date IS NULL
      ORDER BY created_at ASC`
   );
 
@@ -232,69 +397,84 @@ export async function getCustomHabits(
   return habits;
 }
 
-// Get all interval habits with their state
+// Get all interval habits with their next due date as of referenceDate
 export async function getIntervalHabits(
   db: SQLite.SQLiteDatabase,
   referenceDate?: Date
 ): Promise<IntervalHabit[]> {
-  // Auto-advance overdue interval habits before fetching
-  await autoAdvanceOverdueIntervalHabits(db, referenceDate ?? new Date());
-
-  const rows = await db.getAllAsync<
-    HabitRow & { last_completed: string | null; next_due: string; reschedule_if_missed: number }
-  >(
-    `SELECT h.*, ihs.last_completed, ihs.next_due, ihs.reschedule_if_missed
-     FROM habits h
-     JOIN interval_habit_state ihs ON h.id = ihs.habit_id
-     WHERE h.schedule_type = 'interval'
-     ORDER BY h.created_at ASC`
+  const date = referenceDate ?? new Date();
+  const dateString = formatDateString(date);
+  const habits = (await getScheduledHabits(db)).filter(
+    (habit) => habit.scheduleType === 'interval' && habit.archivedDate === undefined
   );
 
-  return rows.map((row) => ({
-    ...mapRowToHabit(row),
-    intervalDays: row.interval_days!,
-    rescheduleIfMissed: row.reschedule_if_missed === 1,
-    lastCompleted: row.last_completed ?? undefined,
-    nextDue: row.next_due,
+  return habits.map((habit) => ({
+    ...habit,
+    intervalDays: habit.intervalDays ?? 1,
+    lastCompleted: habit.completedDates.filter((completedDate) => completedDate <= dateString).pop(),
+    nextDue: getNextDueDate(habit, date),
   }));
 }
 
-// Get habits for a specific day of week (for Weekly view)
-export async function getHabitsForDayOfWeek(
+// Get all weekly quota habits with their progress for the week containing referenceDate
+// With includeArchived, habits archived after that week started are included too (for history)
+export async function getWeeklyHabits(
   db: SQLite.SQLiteDatabase,
-  dayOfWeek: number,
-  date: Date
-): Promise<HabitWithCompletion[]> {
-  const dateString = formatDateString(date);
+  referenceDate?: Date,
+  includeArchived = false
+): Promise<WeeklyHabit[]> {
+  const [weekStart, weekEnd] = getWeekRange(referenceDate ?? new Date());
 
-  const rows = await db.getAllAsync<HabitRow & { completed: number }>(
-    `SELECT
-      h.id,
-      h.name,
-      h.schedule_type,
-      h.interval_days,
-      h.one_time_date,
-      h.created_at,
-      h.updated_at,
-      CASE WHEN c.id IS NOT NULL THEN 1 ELSE 0 END as completed
-    FROM habits h
-    LEFT JOIN habit_completions c
-      ON h.id = c.habit_id AND c.completed_date = ?
-    WHERE
-      h.schedule_type = 'daily'
-      OR (h.schedule_type = 'custom' AND h.one_time_date IS NULL AND EXISTS (
-        SELECT 1 FROM habit_days hd WHERE hd.habit_id = h.id AND hd.day_of_week = ?
-      ))
-    ORDER BY h.created_at ASC`,
-    [dateString, dayOfWeek]
+  const rows = await db.getAllAsync<HabitRow & { completed_this_week: number; skipped_this_week: number }>(
+    `SELECT h.*, (
+       SELECT COUNT(*) FROM habit_completions c
+       WHERE c.habit_id = h.id
+         AND c.completed_date BETWEEN ? AND ?
+         AND ${completedCondition()}
+     ) as completed_this_week, (
+       SELECT COUNT(*) FROM habit_skips s
+       WHERE s.habit_id = h.id AND s.skipped_date BETWEEN ? AND ?
+     ) as skipped_this_week
+     FROM habits h
+     WHERE h.schedule_type = 'weekly'
+       AND (h.archived_date IS NULL OR (? = 1 AND h.archived_date > ?))
+     ORDER BY h.created_at ASC`,
+    [weekStart, weekEnd, weekStart, weekEnd, includeArchived ? 1 : 0, weekStart]
   );
+  const revisions = await getScheduleRevisions(db);
 
+  // The target in force at the end of that week, which may differ from the current one
   return rows.map((row) => ({
     ...mapRowToHabit(row),
-    completed: row.completed === 1,
+    weeklyTarget:
+      getRevisionOn(revisions.filter((revision) => revision.habitId === row.id), weekEnd)?.weeklyTarget ??
+      row.weekly_target ??
+      1,
+    completedThisWeek: row.completed_this_week,
+    skippedThisWeek: row.skipped_this_week,
   }));
 }
 
+// Get all monthly habits
+export async function getMonthlyHabits(
+  db: SQLite.SQLiteDatabase
+): Promise<Habit[]> {
+  const rows = await db.getAllAsync<HabitRow>(
+    `SELECT * FROM habits WHERE schedule_type = 'monthly' AND archived_date IS NULL ORDER BY created_at ASC`
+  );
+  return rows.map(mapRowToHabit);
+}
+
+// Get all rrule habits
+export async function getRRuleHabits(
+  db: SQLite.SQLiteDatabase
+): Promise<Habit[]> {
+  const rows = await db.getAllAsync<HabitRow>(
+    `SELECT * FROM habits WHERE schedule_type = 'rrule' AND archived_date IS NULL ORDER BY created_at ASC`
+  );
+  return rows.map(mapRowToHabit);
+}
+
 // Complete a habit for a specific date
 export async function completeHabit(
   db: SQLite.SQLiteDatabase,
@@ -303,37 +483,83 @@ export async function completeHabit(
 ): Promise<void> {
   const dateString = formatDateString(date);
 
+  const habit = await db.getFirstAsync<HabitRow>(
+    `SELECT * FROM habits WHERE id = ?`,
+    [habitId]
+  );
+
+  // Doing the habit after all replaces a skip
   await db.runAsync(
-    `INSERT OR IGNORE INTO habit_completions (habit_id, completed_date) VALUES (?, ?)`,
+    `DELETE FROM habit_skips WHERE habit_id = ? AND skipped_date = ?`,
     [habitId, dateString]
   );
 
-  // Update interval habit state if applicable
+  // The day is judged by the kind and target in force on it, which may predate the current ones
+  const revision = getRevisionOn(await getScheduleRevisions(db, habitId), dateString);
+  const kind = revision?.kind ?? habit?.kind;
+  const targetValue = revision ? revision.targetValue : habit?.target_value ?? undefined;
+
+  if (kind === 'measurable' && targetValue) {
+    // Completing a measurable habit fills the day's total up to its target
+    await db.runAsync(
+      `INSERT INTO habit_completions (habit_id, completed_date, value) VALUES (?, ?, ?)
+       ON CONFLICT (habit_id, completed_date) DO UPDATE SET value = MAX(COALESCE(value, 0), excluded.value)`,
+      [habitId, dateString, targetValue]
+    );
+  } else {
+    await db.runAsync(
+      `INSERT OR IGNORE INTO habit_completions (habit_id, completed_date) VALUES (?, ?)`,
+      [habitId, dateString]
+    );
+  }
+
+  if (habit?.schedule_type === 'interval') {
+    await refreshIntervalState(db, habitId);
+  }
+}
+
+// Set the total amount logged for a measurable habit on a specific date
+// A total of zero or less removes the day's entry entirely
+export async function logHabitValue(
+  db: SQLite.SQLiteDatabase,
+  habitId: string,
+  date: Date,
+  value: number
+): Promise<void> {
+  const dateString = formatDateString(date);
+
   const habit = await db.getFirstAsync<HabitRow>(
     `SELECT * FROM habits WHERE id = ?`,
     [habitId]
   );
+  if (!habit) return;
 
-  if (habit?.schedule_type === 'interval' && habit.interval_days) {
-    const nextDue = new Date(date);
-    nextDue.setDate(nextDue.getDate() + habit.interval_days);
-
-    const intervalState = await db.getFirstAsync<{ next_due: string | null }>(
-      `SELECT next_due FROM interval_habit_state WHERE habit_id = ?`,
-      [habitId]
+  if (value <= 0) {
+    await db.runAsync(
+      `DELETE FROM habit_completions WHERE habit_id = ? AND completed_date = ?`,
+      [habitId, dateString]
+    );
+  } else {
+    await db.runAsync(
+      `INSERT INTO habit_completions (habit_id, completed_date, value) VALUES (?, ?, ?)
+       ON CONFLICT (habit_id, completed_date) DO UPDATE SET value = excluded.value`,
+      [habitId, dateString, value]
     );
-    const lastDue = intervalState?.next_due ?? dateString;
-
     await db.runAsync(
-      `UPDATE interval_habit_state
-       SET last_completed = ?, last_due = ?, next_due = ?
-       WHERE habit_id = ?`,
-      [dateString, lastDue, formatDateString(nextDue), habitId]
+      `DELETE FROM habit_skips WHERE habit_id = ? AND skipped_date = ?`,
+      [habitId, dateString]
     );
   }
+
+  // Reaching (or dropping below) the target moves an interval habit's schedule
+  if (habit.schedule_type === 'interval') {
+    await refreshIntervalState(db, habitId);
+  }
 }
 
 // Uncomplete a habit for a specific date
+// Interval schedules are replayed from the remaining history, so the habit is due exactly as it
+// was before the completion, backdated ones included
 export async function uncompleteHabit(
   db: SQLite.SQLiteDatabase,
   habitId: string,
@@ -345,6 +571,167 @@ export async function uncompleteHabit(
     `DELETE FROM habit_completions WHERE habit_id = ? AND completed_date = ?`,
     [habitId, dateString]
   );
+  await refreshIntervalState(db, habitId);
+}
+
+// Get the completion entry for a habit on a specific date, or null when nothing was logged.
+// For measurable habits the entry exists as soon as an amount was logged, even below target.
+export async function getCompletionEntry(
+  db: SQLite.SQLiteDatabase,
+  habitId: string,
+  date: Date
+): Promise<HabitCompletionEntry | null> {
+  const row = await db.getFirstAsync<{ completed_date: string; value: number | null; note: string | null }>(
+    `SELECT completed_date, value, note FROM habit_completions WHERE habit_id = ? AND completed_date = ?`,
+    [habitId, formatDateString(date)]
+  );
+  return row ? { date: row.completed_date, value: row.value ?? undefined, note: row.note ?? undefined } : null;
+}
+
+// Set the note on a habit's completion for a specific date; a blank note clears it
+// Notes belong to the completion, so there must be one, and undoing it removes the note too
+export async function setCompletionNote(
+  db: SQLite.SQLiteDatabase,
+  habitId: string,
+  date: Date,
+  note: string
+): Promise<void> {
+  await db.runAsync(
+    `UPDATE habit_completions SET note = ? WHERE habit_id = ? AND completed_date = ?`,
+    [note.trim() || null, habitId, formatDateString(date)]
+  );
+}
+
+// Find completion notes containing `query` (case-insensitive), newest first
+export async function searchCompletionNotes(
+  db: SQLite.SQLiteDatabase,
+  query: string,
+  limit: number
+): Promise<CompletionNote[]> {
+  const pattern = `%${query.trim().replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+  const rows = await db.getAllAsync<{ habit_id: string; name: string; completed_date: string; note: string }>(
+    `SELECT c.habit_id, h.name, c.completed_date, c.note FROM habit_completions c
+     JOIN habits h ON h.id = c.habit_id
+     WHERE c.note LIKE ? ESCAPE '\\'
+     ORDER BY c.completed_date DESC, h.name ASC
+     LIMIT ?`,
+    [pattern, limit]
+  );
+  return rows.map((row) => ({
+    habitId: row.habit_id,
+    habitName: row.name,
+    date: row.completed_date,
+    note: row.note,
+  }));
+}
+
+// Skip a habit for a specific date: it counts as neither done nor missed
+// Interval habits move on to their next occurrence, just like after a completion
+export async function skipHabit(
+  db: SQLite.SQLiteDatabase,
+  habitId: string,
+  date: Date
+): Promise<void> {
+  const dateString = formatDateString(date);
+
+  const habit = await db.getFirstAsync<HabitRow>(
+    `SELECT * FROM habits WHERE id = ?`,
+    [habitId]
+  );
+  if (!habit) return;
+
+  await db.runAsync(
+    `DELETE FROM habit_completions WHERE habit_id = ? AND completed_date = ?`,
+    [habitId, dateString]
+  );
+  await db.runAsync(
+    `INSERT OR IGNORE INTO habit_skips (habit_id, skipped_date) VALUES (?, ?)`,
+    [habitId, dateString]
+  );
+
+  if (habit.schedule_type === 'interval') {
+    await refreshIntervalState(db, habitId);
+  }
+}
+
+// Remove a skip for a specific date; like uncompleting, this puts an interval habit's schedule back
+export async function unskipHabit(
+  db: SQLite.SQLiteDatabase,
+  habitId: string,
+  date: Date
+): Promise<void> {
+  const dateString = formatDateString(date);
+
+  await db.runAsync(
+    `DELETE FROM habit_skips WHERE habit_id = ? AND skipped_date = ?`,
+    [habitId, dateString]
+  );
+  await refreshIntervalState(db, habitId);
+}
+
+// Archive a habit: it leaves every schedule from `date` on, but its completions are kept
+export async function archiveHabit(
+  db: SQLite.SQLiteDatabase,
+  habitId: string,
+  date: Date = new Date()
+): Promise<void> {
+  await db.runAsync(
+    `UPDATE habits SET archived_date = ?, updated_at = ? WHERE id = ?`,
+    [formatDateString(date), new Date().toISOString(), habitId]
+  );
+}
+
+// Bring an archived habit back onto its schedule. The days it spent archived become a pause
+// for the habit, so they read as excused rather than missed.
+export async function unarchiveHabit(
+  db: SQLite.SQLiteDatabase,
+  habitId: string
+): Promise<void> {
+  const row = await db.getFirstAsync<{ archived_date: string | null }>(
+    `SELECT archived_date FROM habits WHERE id = ?`,
+    [habitId]
+  );
+  const yesterday = addDays(formatDateString(new Date()), -1);
+
+  if (row?.archived_date && row.archived_date <= yesterday) {
+    await createPause(db, { habitId, startDate: row.archived_date, endDate: yesterday });
+  }
+  await db.runAsync(
+    `UPDATE habits SET archived_date = NULL, updated_at = ? WHERE id = ?`,
+    [new Date().toISOString(), habitId]
+  );
+  await refreshIntervalState(db, habitId);
+}
+
+// Get all archived habits, most recently archived first
+export async function getArchivedHabits(
+  db: SQLite.SQLiteDatabase
+): Promise<Habit[]> {
+  const rows = await db.getAllAsync<HabitRow>(
+    `SELECT * FROM habits WHERE archived_date IS NOT NULL ORDER BY archived_date DESC, created_at ASC`
+  );
+  return rows.map(mapRowToHabit);
+}
+
+// Get a single habit, archived or not
+export async function getHabit(
+  db: SQLite.SQLiteDatabase,
+  habitId: string
+): Promise<Habit | null> {
+  const row = await db.getFirstAsync<HabitRow>(`SELECT * FROM habits WHERE id = ?`, [habitId]);
+  return row ? mapRowToHabit(row) : null;
+}
+
+// Get the days of the week a custom habit is on (0=Sunday, 1=Monday, etc.)
+export async function getHabitDays(
+  db: SQLite.SQLiteDatabase,
+  habitId: string
+): Promise<number[]> {
+  const rows = await db.getAllAsync<{ day_of_week: number }>(
+    `SELECT day_of_week FROM habit_days WHERE habit_id = ? ORDER BY day_of_week`,
+    [habitId]
+  );
+  return rows.map((row) => row.day_of_week);
 }
 
 // Delete a habit
@@ -362,33 +749,120 @@ export async function clearAllData(
   await db.execAsync(`
     DELETE FROM habit_completions;
     DELETE FROM habit_days;
+    DELETE FROM habit_skips;
     DELETE FROM interval_habit_state;
+    DELETE FROM habit_pauses;
+    DELETE FROM habit_schedule_revisions;
+    DELETE FROM journal_entries;
     DELETE FROM habits;
   `);
 }
 
-// Get week progress for a habit (7 days starting from weekStartDate)
-export async function getWeekProgress(
+// Helper to work out a habit's state on one day; `today` (YYYY-MM-DD) separates missed from due.
+// Weekly quota habits have no fixed days, so only the days they were done or skipped stand out.
+function getDayState(habit: ScheduledHabit, date: Date, today: string): HabitDayState {
+  const dateString = formatDateString(date);
+  if (habit.completedDates.includes(dateString)) return 'completed';
+  if (habit.skippedDates.includes(dateString)) return 'skipped';
+  if (!isActiveOn(habit, dateString)) return 'none';
+  if (isPausedOn(habit.pauses, habit.id, dateString)) return 'paused';
+  if (habit.scheduleType !== 'weekly' && isDueOn(habit, date)) {
+    return dateString < today ? 'missed' : 'due';
+  }
+  return 'none';
+}
+
+// Get a habit's state on each day from fromDate to toDate (YYYY-MM-DD, inclusive), for its history
+export async function getHabitHistory(
   db: SQLite.SQLiteDatabase,
   habitId: string,
-  weekStartDate: Date
-): Promise<boolean[]> {
-  const weekDates: string[] = [];
-  for (let i = 0; i < 7; i++) {
-    const date = new Date(weekStartDate);
-    date.setDate(date.getDate() + i);
-    weekDates.push(formatDateString(date));
-  }
+  fromDate: string,
+  toDate: string
+): Promise<HabitHistoryDay[]> {
+  const [habit] = await getScheduledHabits(db, habitId);
+  if (!habit) return [];
 
-  const placeholders = weekDates.map(() => '?').join(',');
-  const completions = await db.getAllAsync<{ completed_date: string }>(
-    `SELECT completed_date FROM habit_completions
-     WHERE habit_id = ? AND completed_date IN (${placeholders})`,
-    [habitId, ...weekDates]
+  const today = formatDateString(new Date());
+  const entries = await db.getAllAsync<{ completed_date: string; value: number | null; note: string | null }>(
+    `SELECT completed_date, value, note FROM habit_completions
+     WHERE habit_id = ? AND completed_date BETWEEN ? AND ?`,
+    [habitId, fromDate, toDate]
   );
+  const entriesByDate = new Map(entries.map((entry) => [entry.completed_date, entry]));
+
+  const days: HabitHistoryDay[] = [];
+  const cursor = parseDateString(fromDate);
+  while (formatDateString(cursor) <= toDate) {
+    const dateString = formatDateString(cursor);
+    days.push({
+      date: dateString,
+      state: getDayState(habit, cursor, today),
+      value: entriesByDate.get(dateString)?.value ?? undefined,
+      note: entriesByDate.get(dateString)?.note ?? undefined,
+    });
+    cursor.setDate(cursor.getDate() + 1);
+  }
+
+  return days;
+}
+
+// Walk occurrences oldest first: a completed one extends the run, a skipped one neither
+// extends nor breaks it, and a missed one ends it. Occurrences from `openFrom` on are still
+// in progress, so they only count once completed.
+function getRunLengths(
+  occurrences: string[],
+  isCompleted: (occurrence: string) => boolean,
+  isExcused: (occurrence: string) => boolean,
+  openFrom: string
+): HabitStreak {
+  let current = 0;
+  let best = 0;
+  for (const occurrence of occurrences) {
+    if (isCompleted(occurrence)) {
+      current++;
+      best = Math.max(best, current);
+    } else if (!isExcused(occurrence) && occurrence < openFrom) {
+      current = 0;
+    }
+  }
+  return { current, best };
+}
+
+// Get the current and best-ever streak for a habit, counted in scheduled occurrences:
+// weeks for weekly habits, the occurrences of its schedule for every other habit.
+// Paused days aren't occurrences, so they never break a streak.
+export async function getHabitStreak(
+  db: SQLite.SQLiteDatabase,
+  habitId: string
+): Promise<HabitStreak> {
+  const today = formatDateString(new Date());
+
+  const [habit] = await getScheduledHabits(db, habitId);
+  const completedDates = habit?.completedDates.filter((date) => date <= today) ?? [];
+  if (!habit || completedDates.length === 0) return { current: 0, best: 0 };
+
+  const skippedDates = habit.skippedDates.filter((date) => date <= today);
 
-  const completedDates = new Set(completions.map((c) => c.completed_date));
-  return weekDates.map((date) => completedDates.has(date));
+  if (habit.scheduleType === 'weekly') {
+    const lastActiveDate = getLastActiveDate(habit);
+    return getWeeklyStreak(
+      completedDates,
+      skippedDates,
+      (weekEnd) => getScheduleOn(habit, weekEnd).weeklyTarget ?? 1,
+      habit.startDate < completedDates[0] ? habit.startDate : completedDates[0],
+      lastActiveDate && lastActiveDate < today ? lastActiveDate : today,
+      (weekStart, weekEnd) => isPausedWithin(habit.pauses, habitId, weekStart, weekEnd)
+    );
+  }
+
+  const completedSet = new Set(completedDates);
+  const skippedSet = new Set(skippedDates);
+  return getRunLengths(
+    occurrencesBetween(habit, habit.startDate, today),
+    (date) => completedSet.has(date),
+    (date) => skippedSet.has(date),
+    today
+  );
 }
 
 // Get current streak for a habit
@@ -396,43 +870,60 @@ export async function getStreak(
   db: SQLite.SQLiteDatabase,
   habitId: string
 ): Promise<number> {
-  const today = formatDateString(new Date());
+  const streak = await getHabitStreak(db, habitId);
+  return streak.current;
+}
 
-  // Get all completions for this habit, ordered by date descending
-  const completions = await db.getAllAsync<{ completed_date: string }>(
-    `SELECT completed_date FROM habit_completions
-     WHERE habit_id = ? AND completed_date <= ?
-     ORDER BY completed_date DESC`,
-    [habitId, today]
-  );
+// Helper to count dates per week, keyed by the week's Monday
+function countByWeek(dates: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const date of dates) {
+    const [weekStart] = getWeekRange(parseDateString(date));
+    counts.set(weekStart, (counts.get(weekStart) ?? 0) + 1);
+  }
+  return counts;
+}
 
-  if (completions.length === 0) return 0;
+// Count consecutive weeks in which the weekly target was met, from the week of `fromDate`
+// to the week of `toDate`, against the target in force at the end of each week. The current
+// week doesn't break the streak while it is still in progress, nor do paused weeks. Each skip
+// lowers that week's target by one; a week excused entirely by skips is neutral.
+function getWeeklyStreak(
+  completedDates: string[],
+  skippedDates: string[],
+  weeklyTargetOn: (weekEnd: string) => number,
+  fromDate: string,
+  toDate: string,
+  isWeekPaused: (weekStart: string, weekEnd: string) => boolean = () => false
+): HabitStreak {
+  const countsByWeek = countByWeek(completedDates);
+  const skipsByWeek = countByWeek(skippedDates);
 
-  let streak = 0;
-  let expectedDate = new Date();
-
-  for (const completion of completions) {
-    const completionDate = new Date(completion.completed_date);
-    const expectedDateStr = formatDateString(expectedDate);
-
-    if (completion.completed_date === expectedDateStr) {
-      streak++;
-      expectedDate.setDate(expectedDate.getDate() - 1);
-    } else if (streak === 0) {
-      // Allow for today not being completed yet
-      expectedDate.setDate(expectedDate.getDate() - 1);
-      if (completion.completed_date === formatDateString(expectedDate)) {
-        streak++;
-        expectedDate.setDate(expectedDate.getDate() - 1);
-      } else {
-        break;
-      }
-    } else {
-      break;
-    }
+  const getWeekStatus = (weekStart: string): 'met' | 'excused' | 'missed' => {
+    const [, weekEnd] = getWeekRange(parseDateString(weekStart));
+    const done = countsByWeek.get(weekStart) ?? 0;
+    const required = Math.max(0, weeklyTargetOn(weekEnd) - (skipsByWeek.get(weekStart) ?? 0));
+    if (done < required) return 'missed';
+    return done > 0 ? 'met' : 'excused';
+  };
+
+  const weekStarts: string[] = [];
+  const cursor = getWeekStartDate(parseDateString(fromDate));
+  while (formatDateString(cursor) <= toDate) {
+    weekStarts.push(formatDateString(cursor));
+    cursor.setDate(cursor.getDate() + 7);
   }
 
-  return streak;
+  const [currentWeekStart] = getWeekRange(new Date());
+  return getRunLengths(
+    weekStarts,
+    (weekStart) => getWeekStatus(weekStart) === 'met',
+    (weekStart) => {
+      const [, weekEnd] = getWeekRange(parseDateString(weekStart));
+      return getWeekStatus(weekStart) === 'excused' || isWeekPaused(weekStart, weekEnd);
+    },
+    currentWeekStart
+  );
 }
 
 // Get consecutive days where all habits due that day were completed
@@ -440,34 +931,78 @@ export async function getDailyCompletionStreak(
   db: SQLite.SQLiteDatabase,
   startDate: Date
 ): Promise<number> {
-  const isCompleteDay = async (date: Date) => {
-    const habits = await getHabitsForDate(db, date);
-    const completedCount = habits.filter((habit) => habit.completed).length;
+  const habits = await getScheduledHabits(db);
+  if (habits.length === 0) return 0;
+
+  const [currentWeekStart] = getWeekRange(startDate);
+  const firstDate = habits.map((habit) => habit.startDate).sort()[0];
+  const pauses = habits[0].pauses;
+
+  // A rest day has nothing due: a vacation day, or every habit due on it is paused, skipped or
+  // simply not scheduled. Rest days don't add to the streak, but don't break it either.
+  // Weekly quota habits are judged per week: they never break a day while their week is
+  // still in progress, and only count as missed once a past week ended below its target.
+  // A week the habit started partway through is excused, as it is in its occurrences.
+  const getDayStatus = (date: Date): 'complete' | 'missed' | 'rest' => {
+    const dateString = formatDateString(date);
+    if (isPausedOn(pauses, null, dateString)) {
+      return 'rest';
+    }
+
+    const dueHabits = habits.filter(
+      (habit) =>
+        habit.scheduleType !== 'weekly' &&
+        isDueOn(habit, date) &&
+        !habit.skippedDates.includes(dateString)
+    );
+    const [weekStart, weekEnd] = getWeekRange(date);
+    const weeklyHabits = habits.filter((habit) => {
+      const lastActiveDate = getLastActiveDate(habit);
+      return (
+        habit.scheduleType === 'weekly' &&
+        habit.startDate <= weekEnd &&
+        (lastActiveDate === undefined || lastActiveDate >= weekStart) &&
+        !isPausedWithin(pauses, habit.id, weekStart, weekEnd)
+      );
+    });
+    const weeklySatisfied = weeklyHabits.every(
+      (habit) =>
+        weekStart === currentWeekStart ||
+        habit.startDate > weekStart ||
+        getWeeklyCount(habit, date) >= (getScheduleOn(habit, weekEnd).weeklyTarget ?? 1)
+    );
+    const completedCount = dueHabits.filter((habit) => habit.completedDates.includes(dateString)).length;
     if (__DEV__) {
       console.log('[DailyStreak] day-check', {
-        date: formatDateString(date),
-        due: habits.length,
+        date: dateString,
+        due: dueHabits.length,
         completed: completedCount,
+        weekly: weeklyHabits.length,
+        weeklySatisfied,
       });
     }
-    return habits.length > 0 && completedCount === habits.length;
+    if (dueHabits.length + weeklyHabits.length === 0) {
+      return 'rest';
+    }
+    return completedCount === dueHabits.length && weeklySatisfied ? 'complete' : 'missed';
   };
 
   const cursor = new Date(startDate);
-  const isTodayComplete = await isCompleteDay(cursor);
-  if (!isTodayComplete) {
+  let status = getDayStatus(cursor);
+  // Today doesn't break the streak while it is still in progress
+  if (status === 'missed') {
     cursor.setDate(cursor.getDate() - 1);
+    status = getDayStatus(cursor);
   }
 
+  // Nothing was due before the first habit started, so the walk ends there
   let streak = 0;
-  let complete = isTodayComplete;
-  if (!complete) {
-    complete = await isCompleteDay(cursor);
-  }
-  while (complete) {
-    streak += 1;
+  while (status !== 'missed' && formatDateString(cursor) >= firstDate) {
+    if (status === 'complete') {
+      streak += 1;
+    }
     cursor.setDate(cursor.getDate() - 1);
-    complete = await isCompleteDay(cursor);
+    status = getDayStatus(cursor);
   }
 
   if (__DEV__) {
@@ -481,7 +1016,231 @@ export async function getTotalCompletions(
   db: SQLite.SQLiteDatabase
 ): Promise<number> {
   const result = await db.getFirstAsync<{ count: number }>(
-    `SELECT COUNT(*) as count FROM habit_completions`
+    `SELECT COUNT(*) as count FROM habit_completions c
+     JOIN habits h ON h.id = c.habit_id
+     WHERE ${completedCondition()}`
   );
   return result?.count ?? 0;
 }
+
+// Count completions per day from fromDate to toDate (inclusive) with one grouped query, for the
+// heatmap; pass habitId for a single habit. Days without completions are left out
+export async function getCompletionCounts(
+  db: SQLite.SQLiteDatabase,
+  fromDate: string,
+  toDate: string,
+  habitId?: string
+): Promise<Map<string, number>> {
+  const rows = await db.getAllAsync<{ completed_date: string; count: number }>(
+    `SELECT c.completed_date, COUNT(*) as count FROM habit_completions c
+     JOIN habits h ON h.id = c.habit_id
+     WHERE c.completed_date BETWEEN ? AND ? AND ${completedCondition()} ${habitId ? 'AND c.habit_id = ?' : ''}
+     GROUP BY c.completed_date`,
+    habitId ? [fromDate, toDate, habitId] : [fromDate, toDate]
+  );
+  return new Map(rows.map((row) => [row.completed_date, row.count]));
+}
+
+// Helper to tally a habit's occurrences from fromDate to toDate (inclusive). Skipped occurrences
+// count as neither done nor missed, and one from `today` on only counts once it is done.
+// A weekly habit can list a day more than once, but a day's completion only covers one of them.
+function tallyOccurrences(
+  habit: ScheduledHabit,
+  fromDate: string,
+  toDate: string,
+  today: string
+): [string, boolean][] {
+  const completedSet = new Set(habit.completedDates);
+  const skippedSet = new Set(habit.skippedDates);
+  const used = new Set<string>();
+  const tallied: [string, boolean][] = [];
+  for (const occurrence of occurrencesBetween(habit, fromDate, toDate)) {
+    const isMarked = !used.has(occurrence);
+    used.add(occurrence);
+    if (isMarked && completedSet.has(occurrence)) {
+      tallied.push([occurrence, true]);
+    } else if (!(isMarked && skippedSet.has(occurrence)) && occurrence < today) {
+      tallied.push([occurrence, false]);
+    }
+  }
+  return tallied;
+}
+
+// Helper to count the tallied occurrences from fromDate to toDate (inclusive)
+function countTallied(tallied: [string, boolean][], fromDate: string, toDate: string): OccurrenceTally {
+  const inRange = tallied.filter(([date]) => date >= fromDate && date <= toDate);
+  return { scheduled: inRange.length, completed: inRange.filter(([, done]) => done).length };
+}
+
+// Get each habit's completion rate over the last `days` days (today included) and over the
+// `days` days before them, measured against its scheduled occurrences rather than calendar days.
+// Habits with nothing scheduled in either span are left out; the rest come most consistent first.
+// Pass habitId for a single habit.
+export async function getHabitCompletionRates(
+  db: SQLite.SQLiteDatabase,
+  days: number,
+  habitId?: string
+): Promise<HabitCompletionRate[]> {
+  const today = formatDateString(new Date());
+  const currentFrom = addDays(today, -(days - 1));
+  const previousTo = addDays(currentFrom, -1);
+  const previousFrom = addDays(currentFrom, -days);
+
+  const habits = await getScheduledHabits(db, habitId);
+  const rates: HabitCompletionRate[] = [];
+  for (const habit of habits) {
+    const tallied = tallyOccurrences(habit, previousFrom, today, today);
+    const current = countTallied(tallied, currentFrom, today);
+    const previous = countTallied(tallied, previousFrom, previousTo);
+    if (current.scheduled > 0 || previous.scheduled > 0) {
+      rates.push({ habitId: habit.id, name: habit.name, current, previous });
+    }
+  }
+
+  const rateOf = ({ current }: HabitCompletionRate) =>
+    current.scheduled > 0 ? current.completed / current.scheduled : -1;
+  return rates.sort((a, b) => rateOf(b) - rateOf(a) || b.current.scheduled - a.current.scheduled);
+}
+
+// Get how many scheduled occurrences were done on each weekday over the last `days` days,
+// Monday first, across every habit. Weekly quota habits have no fixed days, so they are left out.
+export async function getWeekdayCompletionRates(
+  db: SQLite.SQLiteDatabase,
+  days: number
+): Promise<OccurrenceTally[]> {
+  const today = formatDateString(new Date());
+  const fromDate = addDays(today, -(days - 1));
+
+  const habits = await getScheduledHabits(db);
+  const weekdays: OccurrenceTally[] = Array.from({ length: 7 }, () => ({ scheduled: 0, completed: 0 }));
+  for (const habit of habits) {
+    if (habit.scheduleType === 'weekly') continue;
+    for (const [date, done] of tallyOccurrences(habit, fromDate, today, today)) {
+      const weekday = weekdays[(parseDateString(date).getDay() + 6) % 7];
+      weekday.scheduled++;
+      if (done) weekday.completed++;
+    }
+  }
+  return weekdays;
+}
+
+// Occurrences it takes for an old result to count half as much towards a habit's strength
+const STRENGTH_HALF_LIFE = 13;
+
+// Get a habit's strength: an exponential moving average over its scheduled occurrences, from
+// 0 to 1, where each one done pulls the score up and each one missed pulls it down. Unlike a
+// streak, one miss after a long run only dents it. Skipped occurrences leave it unchanged.
+// The history holds the score at the end of each Monday-Sunday week since the habit started.
+export async function getHabitStrength(
+  db: SQLite.SQLiteDatabase,
+  habitId: string
+): Promise<HabitStrength> {
+  const today = formatDateString(new Date());
+  const [habit] = await getScheduledHabits(db, habitId);
+  if (!habit || habit.startDate > today) return { score: 0, history: [] };
+
+  const weight = 1 - Math.pow(0.5, 1 / STRENGTH_HALF_LIFE);
+  const tallied = tallyOccurrences(habit, habit.startDate, today, today).sort(([a], [b]) =>
+    a < b ? -1 : a > b ? 1 : 0
+  );
+
+  const history: HabitStrengthPoint[] = [];
+  let score = 0;
+  let index = 0;
+  const cursor = getWeekStartDate(parseDateString(habit.startDate));
+  while (formatDateString(cursor) <= today) {
+    const [, weekEnd] = getWeekRange(cursor);
+    const sampleDate = weekEnd < today ? weekEnd : today;
+    for (; index < tallied.length && tallied[index][0] <= sampleDate; index++) {
+      score += weight * ((tallied[index][1] ? 1 : 0) - score);
+    }
+    history.push({ date: sampleDate, score });
+    cursor.setDate(cursor.getDate() + 7);
+  }
+
+  return { score, history };
+}
+
+// Get a habit's next due dates within the coming year, soonest first, leaving out today once it
+// is done or skipped. Interval habits are projected the same way as on the agenda; weekly quota
+// habits have no fixed days, so they have none.
+export async function getUpcomingDueDates(
+  db: SQLite.SQLiteDatabase,
+  habitId: string,
+  count: number
+): Promise<string[]> {
+  const todayDate = new Date();
+  const today = formatDateString(todayDate);
+  const [habit] = await getScheduledHabits(db, habitId);
+  if (!habit || habit.scheduleType === 'weekly') return [];
+
+  if (habit.scheduleType === 'interval') {
+    return getUpcomingIntervalDates(habit, todayDate, addDays(today, 366), count);
+  }
+
+  const isDone = (date: string) => habit.completedDates.includes(date) || habit.skippedDates.includes(date);
+  return occurrencesBetween(habit, today, addDays(today, 366))
+    .filter((date) => !(date === today && isDone(date)))
+    .slice(0, count);
+}
+
+// Get a habit's most recent completions, newest first, with the logged amount for measurable habits
+export async function getRecentCompletions(
+  db: SQLite.SQLiteDatabase,
+  habitId: string,
+  limit: number
+): Promise<HabitCompletionEntry[]> {
+  const rows = await db.getAllAsync<{ completed_date: string; value: number | null; note: string | null }>(
+    `SELECT c.completed_date, c.value, c.note FROM habit_completions c
+     JOIN habits h ON h.id = c.habit_id
+     WHERE c.habit_id = ? AND ${completedCondition()}
+     ORDER BY c.completed_date DESC
+     LIMIT ?`,
+    [habitId, limit]
+  );
+  return rows.map((row) => ({
+    date: row.completed_date,
+    value: row.value ?? undefined,
+    note: row.note ?? undefined,
+  }));
+}
+
+// Get every habit expected on each day from today through the next `days` days (today included),
+// for the agenda. Interval habits are projected from their next due date as if each occurrence
+// is done on time, with an overdue one listed today; other habits follow their schedule.
+// Weekly quota habits have no fixed days, so they are left out.
+export async function getAgenda(
+  db: SQLite.SQLiteDatabase,
+  days: number
+): Promise<AgendaDay[]> {
+  const todayDate = new Date();
+  const today = formatDateString(todayDate);
+  const toDate = addDays(today, days - 1);
+
+  const agenda: AgendaDay[] = [];
+  for (let index = 0; index < days; index++) {
+    agenda.push({ date: addDays(today, index), items: [] });
+  }
+
+  const habits = await getScheduledHabits(db);
+  for (const habit of habits) {
+    if (habit.scheduleType === 'weekly') continue;
+
+    const dates =
+      habit.scheduleType === 'interval'
+        ? getUpcomingIntervalDates(habit, todayDate, toDate)
+        : occurrencesBetween(habit, today, toDate);
+
+    for (const date of dates) {
+      const day = agenda.find((agendaDay) => agendaDay.date === date);
+      day?.items.push({
+        habitId: habit.id,
+        name: habit.name,
+        scheduleType: habit.scheduleType,
+        done: habit.completedDates.includes(date),
+      });
+    }
+  }
+
+  return agenda;
+}
@@ -0,0 +1,99 @@
+import * as SQLite from 'expo-sqlite';
+import { formatDateString } from './database';
+import { getDaySummaries } from './habit-repository';
+import { addDays } from './schedule';
+import { JournalAverages, JournalEntry, JournalEntryRow, JournalStats } from '@/types/habit';
+
+// Helper to map database row to JournalEntry object
+function mapRowToEntry(row: JournalEntryRow): JournalEntry {
+  return {
+    date: row.entry_date,
+    mood: row.mood ?? undefined,
+    energy: row.energy ?? undefined,
+    text: row.text ?? undefined,
+  };
+}
+
+// Get the journal entry for a date (YYYY-MM-DD), or null when nothing was written
+export async function getJournalEntry(
+  db: SQLite.SQLiteDatabase,
+  date: string
+): Promise<JournalEntry | null> {
+  const row = await db.getFirstAsync<JournalEntryRow>(
+    `SELECT * FROM journal_entries WHERE entry_date = ?`,
+    [date]
+  );
+  return row ? mapRowToEntry(row) : null;
+}
+
+// Get the journal entries from fromDate to toDate (inclusive), oldest first
+export async function getJournalEntries(
+  db: SQLite.SQLiteDatabase,
+  fromDate: string,
+  toDate: string
+): Promise<JournalEntry[]> {
+  const rows = await db.getAllAsync<JournalEntryRow>(
+    `SELECT * FROM journal_entries WHERE entry_date BETWEEN ? AND ? ORDER BY entry_date ASC`,
+    [fromDate, toDate]
+  );
+  return rows.map(mapRowToEntry);
+}
+
+// Save the journal entry for its date, replacing any earlier one
+// An entry without a mood, an energy rating or any text is removed instead
+export async function saveJournalEntry(
+  db: SQLite.SQLiteDatabase,
+  entry: JournalEntry
+): Promise<void> {
+  const text = entry.text?.trim() || null;
+  if (entry.mood === undefined && entry.energy === undefined && !text) {
+    await db.runAsync(`DELETE FROM journal_entries WHERE entry_date = ?`, [entry.date]);
+    return;
+  }
+
+  await db.runAsync(
+    `INSERT INTO journal_entries (entry_date, mood, energy, text, updated_at)
+     VALUES (?, ?, ?, ?, datetime('now'))
+     ON CONFLICT (entry_date) DO UPDATE SET
+       mood = excluded.mood, energy = excluded.energy, text = excluded.text, updated_at = excluded.updated_at`,
+    [entry.date, entry.mood ?? null, entry.energy ?? null, text]
+  );
+}
+
+// Helper to average the ratings of a group of entries, leaving out entries without that rating
+function averageEntries(entries: JournalEntry[]): JournalAverages {
+  const average = (values: (number | undefined)[]) => {
+    const rated = values.filter((value): value is number => value !== undefined);
+    return rated.length > 0 ? rated.reduce((sum, value) => sum + value, 0) / rated.length : undefined;
+  };
+  return {
+    days: entries.length,
+    mood: average(entries.map((entry) => entry.mood)),
+    energy: average(entries.map((entry) => entry.energy)),
+  };
+}
+
+// Compare journal ratings on days every habit was done with the other days, over the last
+// `days` days (today included). Days with nothing on the list belong to neither group.
+export async function getJournalStats(
+  db: SQLite.SQLiteDatabase,
+  days: number
+): Promise<JournalStats> {
+  const today = formatDateString(new Date());
+  const fromDate = addDays(today, -(days - 1));
+
+  const entries = await getJournalEntries(db, fromDate, today);
+  const summaries = new Map(
+    (await getDaySummaries(db, fromDate, today)).map((summary) => [summary.date, summary])
+  );
+
+  const perfectDays: JournalEntry[] = [];
+  const otherDays: JournalEntry[] = [];
+  for (const entry of entries) {
+    const summary = summaries.get(entry.date);
+    if (!summary || summary.total === 0) continue;
+    (summary.completed === summary.total ? perfectDays : otherDays).push(entry);
+  }
+
+  return { perfectDays: averageEntries(perfectDays), otherDays: averageEntries(otherDays) };
+}
@@ -0,0 +1,125 @@
+import * as SQLite from 'expo-sqlite';
+import { formatDateString, generateId } from './database';
+import { HabitPause, HabitPauseRow } from '@/types/habit';
+
+// Helper to map database row to HabitPause object
+function mapRowToPause(row: HabitPauseRow): HabitPause {
+  return {
+    id: row.id,
+    habitId: row.habit_id ?? undefined,
+    startDate: row.start_date,
+    endDate: row.end_date ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+// Check a date against already loaded pauses; global pauses apply to every habit
+export function isPausedOn(pauses: HabitPause[], habitId: string | null, dateString: string): boolean {
+  return pauses.some(
+    (pause) =>
+      (pause.habitId === undefined || pause.habitId === habitId) &&
+      pause.startDate <= dateString &&
+      (pause.endDate === undefined || pause.endDate >= dateString)
+  );
+}
+
+// Check whether any pause for the habit (or a global one) overlaps the date range
+export function isPausedWithin(
+  pauses: HabitPause[],
+  habitId: string | null,
+  fromDate: string,
+  toDate: string
+): boolean {
+  return pauses.some(
+    (pause) =>
+      (pause.habitId === undefined || pause.habitId === habitId) &&
+      pause.startDate <= toDate &&
+      (pause.endDate === undefined || pause.endDate >= fromDate)
+  );
+}
+
+// Pause a single habit, or every habit when habitId is omitted (vacation)
+export async function createPause(
+  db: SQLite.SQLiteDatabase,
+  pause: { habitId?: string; startDate: string; endDate?: string }
+): Promise<HabitPause> {
+  const id = generateId();
+  const now = new Date().toISOString();
+
+  await db.runAsync(
+    `INSERT INTO habit_pauses (id, habit_id, start_date, end_date, created_at) VALUES (?, ?, ?, ?, ?)`,
+    [id, pause.habitId ?? null, pause.startDate, pause.endDate ?? null, now]
+  );
+
+  return {
+    id,
+    habitId: pause.habitId,
+    startDate: pause.startDate,
+    endDate: pause.endDate,
+    createdAt: now,
+  };
+}
+
+// Resume on `date`: the pause ends the day before, or is dropped if it hadn't started yet
+export async function endPause(
+  db: SQLite.SQLiteDatabase,
+  pauseId: string,
+  date: Date = new Date()
+): Promise<void> {
+  const dayBefore = new Date(date);
+  dayBefore.setDate(dayBefore.getDate() - 1);
+  const dateString = formatDateString(date);
+
+  await db.runAsync(`DELETE FROM habit_pauses WHERE id = ? AND start_date >= ?`, [pauseId, dateString]);
+  await db.runAsync(
+    `UPDATE habit_pauses SET end_date = ? WHERE id = ? AND (end_date IS NULL OR end_date >= ?)`,
+    [formatDateString(dayBefore), pauseId, dateString]
+  );
+}
+
+// Delete a pause entirely
+export async function deletePause(
+  db: SQLite.SQLiteDatabase,
+  pauseId: string
+): Promise<void> {
+  await db.runAsync(`DELETE FROM habit_pauses WHERE id = ?`, [pauseId]);
+}
+
+// Get pauses, latest first. With a habitId: that habit's own pauses only; without: every pause
+export async function getPauses(
+  db: SQLite.SQLiteDatabase,
+  habitId?: string
+): Promise<HabitPause[]> {
+  const rows = habitId
+    ? await db.getAllAsync<HabitPauseRow>(
+        `SELECT * FROM habit_pauses WHERE habit_id = ? ORDER BY start_date DESC`,
+        [habitId]
+      )
+    : await db.getAllAsync<HabitPauseRow>(`SELECT * FROM habit_pauses ORDER BY start_date DESC`);
+  return rows.map(mapRowToPause);
+}
+
+// Get global pauses only (vacations), latest first
+export async function getGlobalPauses(
+  db: SQLite.SQLiteDatabase
+): Promise<HabitPause[]> {
+  const rows = await db.getAllAsync<HabitPauseRow>(
+    `SELECT * FROM habit_pauses WHERE habit_id IS NULL ORDER BY start_date DESC`
+  );
+  return rows.map(mapRowToPause);
+}
+
+// Get every pause (global or per-habit) covering a date
+export async function getPausesForDate(
+  db: SQLite.SQLiteDatabase,
+  date: Date
+): Promise<HabitPause[]> {
+  const dateString = formatDateString(date);
+  const rows = await db.getAllAsync<HabitPauseRow>(
+    `SELECT * FROM habit_pauses
+     WHERE start_date <= ? AND (end_date IS NULL OR end_date >= ?)
+     ORDER BY habit_id IS NOT NULL, start_date ASC`,
+    [dateString, dateString]
+  );
+  return rows.map(mapRowToPause);
+}
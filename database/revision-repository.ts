@@ -0,0 +1,105 @@
+import * as SQLite from 'expo-sqlite';
+import { HabitKind, ScheduleRevision, ScheduleRevisionRow } from '@/types/habit';
+
+// Helper to map database row to ScheduleRevision object
+function mapRowToRevision(row: ScheduleRevisionRow): ScheduleRevision {
+  return {
+    habitId: row.habit_id,
+    effectiveFrom: row.effective_from,
+    days: row.days ? row.days.split(',').map(Number) : [],
+    intervalDays: row.interval_days ?? undefined,
+    weeklyTarget: row.weekly_target ?? undefined,
+    monthDay: row.month_day ?? undefined,
+    monthWeek: row.month_week ?? undefined,
+    monthWeekday: row.month_weekday ?? undefined,
+    rrule: row.rrule ?? undefined,
+    rruleStart: row.rrule_start ?? undefined,
+    kind: (row.kind as HabitKind | null) ?? 'boolean',
+    targetValue: row.target_value ?? undefined,
+  };
+}
+
+// Helper to check whether two revisions describe the same schedule
+function isSameSchedule(a: ScheduleRevision, b: ScheduleRevision): boolean {
+  return (
+    a.days.join(',') === b.days.join(',') &&
+    a.intervalDays === b.intervalDays &&
+    a.weeklyTarget === b.weeklyTarget &&
+    a.monthDay === b.monthDay &&
+    a.monthWeek === b.monthWeek &&
+    a.monthWeekday === b.monthWeekday &&
+    a.rrule === b.rrule &&
+    a.rruleStart === b.rruleStart &&
+    a.kind === b.kind &&
+    a.targetValue === b.targetValue
+  );
+}
+
+// Record the habit's current schedule (its habits row and habit_days) and what counts as done
+// as in force from effectiveFrom on. Revisions from that date on are replaced, and nothing is recorded when
+// the schedule didn't actually change.
+export async function recordScheduleRevision(
+  db: SQLite.SQLiteDatabase,
+  habitId: string,
+  effectiveFrom: string
+): Promise<void> {
+  const current = await db.getFirstAsync<ScheduleRevisionRow>(
+    `SELECT 0 as id, h.id as habit_id, ? as effective_from,
+       (SELECT group_concat(day_of_week) FROM (
+         SELECT day_of_week FROM habit_days WHERE habit_id = h.id ORDER BY day_of_week
+       )) as days,
+       h.interval_days, h.weekly_target, h.month_day, h.month_week, h.month_weekday, h.rrule, h.rrule_start,
+       h.kind, h.target_value
+     FROM habits h
+     WHERE h.id = ?`,
+    [effectiveFrom, habitId]
+  );
+  if (!current) return;
+
+  await db.runAsync(
+    `DELETE FROM habit_schedule_revisions WHERE habit_id = ? AND effective_from >= ?`,
+    [habitId, effectiveFrom]
+  );
+
+  const previous = await db.getFirstAsync<ScheduleRevisionRow>(
+    `SELECT * FROM habit_schedule_revisions WHERE habit_id = ? ORDER BY effective_from DESC LIMIT 1`,
+    [habitId]
+  );
+  if (previous && isSameSchedule(mapRowToRevision(previous), mapRowToRevision(current))) return;
+
+  await db.runAsync(
+    `INSERT INTO habit_schedule_revisions (habit_id, effective_from, days, interval_days, weekly_target,
+       month_day, month_week, month_weekday, rrule, rrule_start, kind, target_value)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      habitId,
+      effectiveFrom,
+      current.days,
+      current.interval_days,
+      current.weekly_target,
+      current.month_day,
+      current.month_week,
+      current.month_weekday,
+      current.rrule,
+      current.rrule_start,
+      current.kind,
+      current.target_value,
+    ]
+  );
+}
+
+// Get schedule revisions, oldest first; for one habit, or for every habit when habitId is omitted
+export async function getScheduleRevisions(
+  db: SQLite.SQLiteDatabase,
+  habitId?: string
+): Promise<ScheduleRevision[]> {
+  const rows = habitId
+    ? await db.getAllAsync<ScheduleRevisionRow>(
+        `SELECT * FROM habit_schedule_revisions WHERE habit_id = ? ORDER BY effective_from ASC`,
+        [habitId]
+      )
+    : await db.getAllAsync<ScheduleRevisionRow>(
+        `SELECT * FROM habit_schedule_revisions ORDER BY effective_from ASC`
+      );
+  return rows.map(mapRowToRevision);
+}
@@ -0,0 +1,333 @@
+import { formatDateString, getWeekStartDate, parseDateString } from './database';
+
+// Subset of RFC 5545 recurrence rules used for habit schedules.
+// Rules are evaluated at day granularity: times in DTSTART/UNTIL are ignored and weeks start on Monday.
+export type RRuleFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface RRuleWeekday {
+  weekday: number; // 0=Sunday ... 6=Saturday
+  ordinal?: number; // e.g. 2 for "2TU", -1 for "-1SA" (MONTHLY/YEARLY only)
+}
+
+export interface RRule {
+  freq: RRuleFrequency;
+  interval: number;
+  byDay?: RRuleWeekday[];
+  byMonthDay?: number[]; // 1-31, or negative counting back from the month's end
+  byMonth?: number[]; // 1-12
+  count?: number;
+  until?: string; // YYYY-MM-DD, inclusive
+  dtstart?: string; // YYYY-MM-DD, only set when the text included a DTSTART line
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const FREQUENCIES: RRuleFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const SUPPORTED_PARTS = ['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'BYMONTH', 'COUNT', 'UNTIL'];
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Turns "20250630" or "20250630T235959Z" into "2025-06-30"
+function parseICalDate(value: string): string {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value);
+  if (!match) {
+    throw new Error(`Invalid date "${value}"`);
+  }
+  return `${match[1]}-${match[2]}-${match[3]}`;
+}
+
+function parseIntegerList(name: string, value: string, min: number, max: number): number[] {
+  return value.split(',').map((part) => {
+    const num = Number(part);
+    if (!Number.isInteger(num) || num === 0 || Math.abs(num) < min || Math.abs(num) > max) {
+      throw new Error(`Invalid ${name} value "${part}"`);
+    }
+    return num;
+  });
+}
+
+// Parse an RRULE, with or without the "RRULE:" prefix. A DTSTART line, as exported by
+// calendar apps, may precede it.
+export function parseRRule(text: string): RRule {
+  let dtstart: string | undefined;
+  let ruleText = '';
+
+  for (const rawLine of text.trim().split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    if (line.toUpperCase().startsWith('DTSTART')) {
+      dtstart = parseICalDate(line.slice(line.lastIndexOf(':') + 1));
+    } else {
+      ruleText = line.replace(/^RRULE:/i, '');
+    }
+  }
+
+  if (!ruleText) {
+    throw new Error('Rule is empty');
+  }
+
+  const parts = new Map<string, string>();
+  for (const part of ruleText.split(';')) {
+    if (!part) continue;
+    const [key, value] = part.split('=');
+    if (!key || value === undefined) {
+      throw new Error(`Invalid rule part "${part}"`);
+    }
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  // Dropping a part would quietly change which days the rule picks (BYSETPOS=-1 turns "the last
+  // weekday" into "every weekday"), so anything outside the subset is an error. WKST=MO is
+  // accepted because weeks start on Monday anyway.
+  for (const [key, value] of parts) {
+    if (!SUPPORTED_PARTS.includes(key) && !(key === 'WKST' && value === 'MO')) {
+      throw new Error(key === 'WKST' ? 'Weeks must start on Monday (WKST=MO)' : `${key} is not supported`);
+    }
+  }
+
+  const freq = parts.get('FREQ') as RRuleFrequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    throw new Error('FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY');
+  }
+
+  const rule: RRule = { freq, interval: 1, dtstart };
+
+  const interval = parts.get('INTERVAL');
+  if (interval !== undefined) {
+    rule.interval = Number(interval);
+    if (!Number.isInteger(rule.interval) || rule.interval < 1) {
+      throw new Error(`Invalid INTERVAL "${interval}"`);
+    }
+  }
+
+  const byDay = parts.get('BYDAY');
+  if (byDay !== undefined) {
+    rule.byDay = byDay.split(',').map((part) => {
+      const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(part);
+      if (!match) {
+        throw new Error(`Invalid BYDAY value "${part}"`);
+      }
+      const ordinal = match[1] ? Number(match[1]) : undefined;
+      if (ordinal !== undefined && (ordinal === 0 || Math.abs(ordinal) > 53)) {
+        throw new Error(`Invalid BYDAY value "${part}"`);
+      }
+      return { weekday: WEEKDAY_CODES.indexOf(match[2]), ordinal };
+    });
+  }
+
+  const byMonthDay = parts.get('BYMONTHDAY');
+  if (byMonthDay !== undefined) {
+    rule.byMonthDay = parseIntegerList('BYMONTHDAY', byMonthDay, 1, 31);
+  }
+
+  const byMonth = parts.get('BYMONTH');
+  if (byMonth !== undefined) {
+    rule.byMonth = parseIntegerList('BYMONTH', byMonth, 1, 12);
+    if (rule.byMonth.some((month) => month < 0)) {
+      throw new Error(`Invalid BYMONTH value "${byMonth}"`);
+    }
+  }
+
+  const count = parts.get('COUNT');
+  const until = parts.get('UNTIL');
+  if (count !== undefined && until !== undefined) {
+    throw new Error('COUNT and UNTIL cannot both be set');
+  }
+  if (count !== undefined) {
+    rule.count = Number(count);
+    if (!Number.isInteger(rule.count) || rule.count < 1) {
+      throw new Error(`Invalid COUNT "${count}"`);
+    }
+  }
+  if (until !== undefined) {
+    rule.until = parseICalDate(until);
+  }
+
+  return rule;
+}
+
+// Format a rule back into RRULE text (without the "RRULE:" prefix) for storage and export
+export function formatRRule(rule: RRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byDay?.length) {
+    parts.push(
+      `BYDAY=${rule.byDay.map((day) => `${day.ordinal ?? ''}${WEEKDAY_CODES[day.weekday]}`).join(',')}`
+    );
+  }
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  return parts.join(';');
+}
+
+function daysBetween(from: Date, to: Date): number {
+  const fromUtc = Date.UTC(from.getFullYear(), from.getMonth(), from.getDate());
+  const toUtc = Date.UTC(to.getFullYear(), to.getMonth(), to.getDate());
+  return Math.round((toUtc - fromUtc) / MS_PER_DAY);
+}
+
+function getDaysInMonth(date: Date): number {
+  return new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+}
+
+// Whether `date` is the nth (or nth-from-last when negative) occurrence of its weekday
+// within its month, or within its year for yearly rules without BYMONTH
+function matchesOrdinal(rule: RRule, ordinal: number, date: Date): boolean {
+  const withinYear = rule.freq === 'YEARLY' && !rule.byMonth;
+  const position = withinYear
+    ? daysBetween(new Date(date.getFullYear(), 0, 1), date) + 1
+    : date.getDate();
+  const periodLength = withinYear
+    ? daysBetween(new Date(date.getFullYear(), 0, 1), new Date(date.getFullYear() + 1, 0, 1))
+    : getDaysInMonth(date);
+
+  if (ordinal > 0) {
+    return Math.ceil(position / 7) === ordinal;
+  }
+  return Math.ceil((periodLength - position + 1) / 7) === -ordinal;
+}
+
+// Whether `date` fits the rule's pattern, ignoring COUNT and UNTIL
+function matchesPattern(rule: RRule, start: Date, date: Date): boolean {
+  if (rule.byMonth && !rule.byMonth.includes(date.getMonth() + 1)) return false;
+
+  let periodsSinceStart: number;
+  switch (rule.freq) {
+    case 'DAILY':
+      periodsSinceStart = daysBetween(start, date);
+      break;
+    case 'WEEKLY':
+      periodsSinceStart = Math.round(daysBetween(getWeekStartDate(start), getWeekStartDate(date)) / 7);
+      break;
+    case 'MONTHLY':
+      periodsSinceStart =
+        (date.getFullYear() - start.getFullYear()) * 12 + date.getMonth() - start.getMonth();
+      break;
+    case 'YEARLY':
+      periodsSinceStart = date.getFullYear() - start.getFullYear();
+      break;
+  }
+  if (periodsSinceStart % rule.interval !== 0) return false;
+
+  if (rule.byMonthDay) {
+    const daysInMonth = getDaysInMonth(date);
+    const matchesDay = rule.byMonthDay.some((day) =>
+      day > 0 ? day === date.getDate() : daysInMonth + day + 1 === date.getDate()
+    );
+    if (!matchesDay) return false;
+  }
+
+  if (rule.byDay) {
+    const matchesWeekday = rule.byDay.some(
+      (day) =>
+        day.weekday === date.getDay() &&
+        (day.ordinal === undefined || rule.freq === 'DAILY' || rule.freq === 'WEEKLY' ||
+          matchesOrdinal(rule, day.ordinal, date))
+    );
+    if (!matchesWeekday) return false;
+  }
+
+  // Without BYDAY/BYMONTHDAY, the start date decides which day of the period is used
+  if (!rule.byDay && !rule.byMonthDay) {
+    switch (rule.freq) {
+      case 'WEEKLY':
+        return date.getDay() === start.getDay();
+      case 'MONTHLY':
+        return date.getDate() === start.getDate();
+      case 'YEARLY':
+        return date.getDate() === start.getDate() && (!!rule.byMonth || date.getMonth() === start.getMonth());
+    }
+  }
+
+  return true;
+}
+
+// Get the occurrence dates (YYYY-MM-DD) of a rule anchored at `start` between `from` and `to` inclusive
+export function getRRuleOccurrences(
+  rule: RRule,
+  start: string,
+  from: Date,
+  to: Date,
+  limit = Infinity
+): string[] {
+  const startDate = parseDateString(start);
+  const fromString = formatDateString(from);
+  let endString = formatDateString(to);
+  if (rule.until && rule.until < endString) {
+    endString = rule.until;
+  }
+
+  // COUNT is measured from the start, so earlier occurrences have to be walked through too
+  const cursor = rule.count !== undefined || fromString < start ? new Date(startDate) : new Date(from);
+  const occurrences: string[] = [];
+  let seen = 0;
+
+  for (let current = formatDateString(cursor); current <= endString; current = formatDateString(cursor)) {
+    if (matchesPattern(rule, startDate, cursor)) {
+      seen += 1;
+      if (rule.count !== undefined && seen > rule.count) break;
+      if (current >= fromString) {
+        occurrences.push(current);
+        if (occurrences.length >= limit) break;
+      }
+    }
+    cursor.setDate(cursor.getDate() + 1);
+  }
+
+  return occurrences;
+}
+
+// Whether a rule anchored at `start` (YYYY-MM-DD) has an occurrence on `date`
+export function isRRuleDueOn(rule: RRule, start: string, date: Date): boolean {
+  const dateString = formatDateString(date);
+  if (dateString < start) return false;
+  if (rule.until && dateString > rule.until) return false;
+  if (!matchesPattern(rule, parseDateString(start), date)) return false;
+  if (rule.count === undefined) return true;
+  return getRRuleOccurrences(rule, start, date, date).length === 1;
+}
+
+function ordinalLabel(ordinal: number): string {
+  if (ordinal === -1) return 'last';
+  if (ordinal < 0) return `${ordinalLabel(-ordinal)} to last`;
+  if (ordinal % 100 >= 11 && ordinal % 100 <= 13) return `${ordinal}th`;
+  return `${ordinal}${['th', 'st', 'nd', 'rd'][ordinal % 10] ?? 'th'}`;
+}
+
+// Human-readable summary, e.g. "Every 2 weeks on Mon, Thu until 2025-06-30"
+export function describeRRule(rule: RRule): string {
+  const units: Record<RRuleFrequency, string> = {
+    DAILY: 'day',
+    WEEKLY: 'week',
+    MONTHLY: 'month',
+    YEARLY: 'year',
+  };
+  const unit = units[rule.freq];
+  let description = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `Every ${unit}`;
+
+  if (rule.byDay?.length) {
+    const days = rule.byDay.map((day) =>
+      day.ordinal !== undefined
+        ? `${ordinalLabel(day.ordinal)} ${WEEKDAY_LABELS[day.weekday]}`
+        : WEEKDAY_LABELS[day.weekday]
+    );
+    description += ` on ${days.join(', ')}`;
+  }
+  if (rule.byMonthDay?.length) {
+    description += ` on the ${rule.byMonthDay.map(ordinalLabel).join(', ')}`;
+  }
+  if (rule.byMonth?.length) {
+    const months = rule.byMonth.map((month) =>
+      new Date(2000, month - 1, 1).toLocaleDateString('en-US', { month: 'short' })
+    );
+    description += ` in ${months.join(', ')}`;
+  }
+  if (rule.count !== undefined) {
+    description += `, ${rule.count} ${rule.count === 1 ? 'time' : 'times'}`;
+  }
+  if (rule.until) {
+    description += ` until ${rule.until}`;
+  }
+  return description;
+}
@@ -0,0 +1,367 @@
+import { formatDateString, getWeekStartDate, parseDateString } from './database';
+import { getRRuleOccurrences, isRRuleDueOn, parseRRule } from './rrule';
+import { isPausedOn, isPausedWithin } from './pause-repository';
+import { Habit, ScheduleRevision, ScheduledHabit, WeeklyHabit } from '@/types/habit';
+
+// Schedule rules shared by every query: whether a habit is due on a date and which occurrences
+// fall in a date range. Nothing here touches the database, so past and future dates can be
+// evaluated freely without changing stored state.
+
+// An interval occurrence is due from dueDate until lastDueDate, the day it was done, skipped or
+// missed. lastDueDate is absent while a rescheduled occurrence is still waiting to be done.
+interface IntervalOccurrence {
+  dueDate: string;
+  lastDueDate?: string;
+}
+
+// Shift a YYYY-MM-DD date string by a number of days
+export function addDays(dateString: string, days: number): string {
+  const date = parseDateString(dateString);
+  date.setDate(date.getDate() + days);
+  return formatDateString(date);
+}
+
+// Get the first and last date (YYYY-MM-DD) of the Monday-Sunday week containing `date`
+export function getWeekRange(date: Date): [string, string] {
+  const weekStart = getWeekStartDate(date);
+  const weekEnd = new Date(weekStart);
+  weekEnd.setDate(weekEnd.getDate() + 6);
+  return [formatDateString(weekStart), formatDateString(weekEnd)];
+}
+
+// Whether the habit is within its active dates: started, not yet ended and not archived
+export function isActiveOn(habit: Habit, dateString: string): boolean {
+  return (
+    habit.startDate <= dateString &&
+    (habit.endDate === undefined || habit.endDate >= dateString) &&
+    (habit.archivedDate === undefined || habit.archivedDate > dateString)
+  );
+}
+
+// Last day the habit can be due: its end date or the day before it was archived, if either is set
+export function getLastActiveDate(habit: Habit): string | undefined {
+  const dayBeforeArchived = habit.archivedDate ? addDays(habit.archivedDate, -1) : undefined;
+  if (habit.endDate && dayBeforeArchived) {
+    return habit.endDate < dayBeforeArchived ? habit.endDate : dayBeforeArchived;
+  }
+  return habit.endDate ?? dayBeforeArchived;
+}
+
+// Completions plus skips of a weekly habit in the week containing `date`
+export function getWeeklyCount(habit: ScheduledHabit, date: Date): number {
+  const [weekStart, weekEnd] = getWeekRange(date);
+  const inWeek = (dateString: string) => dateString >= weekStart && dateString <= weekEnd;
+  return habit.completedDates.filter(inWeek).length + habit.skippedDates.filter(inWeek).length;
+}
+
+// The same count for a weekly habit loaded with its week's totals (getWeeklyHabits)
+export function getWeeklyQuotaCount(habit: WeeklyHabit): number {
+  return habit.completedThisWeek + habit.skippedThisWeek;
+}
+
+// The revision in force on dateString among a habit's revisions (oldest first).
+// Dates before the first revision fall back to it.
+export function getRevisionOn(
+  revisions: ScheduleRevision[],
+  dateString: string
+): ScheduleRevision | undefined {
+  let revision = revisions[0];
+  for (const candidate of revisions) {
+    if (candidate.effectiveFrom > dateString) break;
+    revision = candidate;
+  }
+  return revision;
+}
+
+// The habit with the schedule (and what counted as done) in force on dateString; a habit
+// without revisions keeps its own fields
+export function getScheduleOn(habit: ScheduledHabit, dateString: string): ScheduledHabit {
+  const revision = getRevisionOn(habit.revisions, dateString);
+  if (!revision) return habit;
+
+  return {
+    ...habit,
+    days: revision.days,
+    intervalDays: revision.intervalDays,
+    weeklyTarget: revision.weeklyTarget,
+    monthDay: revision.monthDay,
+    monthWeek: revision.monthWeek,
+    monthWeekday: revision.monthWeekday,
+    rrule: revision.rrule,
+    rruleStart: revision.rruleStart,
+    kind: revision.kind,
+    targetValue: revision.targetValue,
+  };
+}
+
+function isHabitPausedOn(habit: ScheduledHabit, dateString: string): boolean {
+  return isPausedOn(habit.pauses, habit.id, dateString);
+}
+
+// Helper to check the fixed calendar schedules: daily, custom, monthly and rrule habits
+function matchesCalendar(scheduledHabit: ScheduledHabit, date: Date): boolean {
+  const habit = getScheduleOn(scheduledHabit, formatDateString(date));
+  switch (habit.scheduleType) {
+    case 'daily':
+      return true;
+    case 'custom':
+      return habit.oneTimeDate
+        ? habit.oneTimeDate === formatDateString(date)
+        : habit.days.includes(date.getDay());
+    case 'monthly': {
+      const dayOfMonth = date.getDate();
+      const daysInMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+      if (habit.monthDay !== undefined) {
+        return Math.min(habit.monthDay, daysInMonth) === dayOfMonth;
+      }
+      if (habit.monthWeekday !== date.getDay()) return false;
+      // The last weekday of the month is the one with no same weekday a week later
+      return habit.monthWeek === -1
+        ? dayOfMonth + 7 > daysInMonth
+        : habit.monthWeek === Math.ceil(dayOfMonth / 7);
+    }
+    case 'rrule':
+      // A rule that no longer parses is never due
+      if (!habit.rrule || !habit.rruleStart) return false;
+      try {
+        return isRRuleDueOn(parseRRule(habit.rrule), habit.rruleStart, date);
+      } catch {
+        return false;
+      }
+    default:
+      return false;
+  }
+}
+
+// The day after an interval habit's occurrence on dateString that the next one falls due,
+// by the interval in force on that day
+function stepInterval(habit: ScheduledHabit, dateString: string): string {
+  return addDays(dateString, Math.max(1, getScheduleOn(habit, dateString).intervalDays ?? 1));
+}
+
+// Move a due date that falls in a pause to the first day after it, looking no further than toDate
+function skipPausedDays(habit: ScheduledHabit, dateString: string, toDate: string): string {
+  let due = dateString;
+  while (due <= toDate && isHabitPausedOn(habit, due)) {
+    due = addDays(due, 1);
+  }
+  return due;
+}
+
+// Replay an interval habit's history through toDate. The first occurrence is due on the start
+// date and each completion or skip makes the next one due intervalDays later; a due date that
+// falls in a pause moves to the first day after it. A missed occurrence is closed and the next
+// one follows an interval later, unless rescheduleIfMissed keeps it due until it is done.
+// Each step uses the interval in force on the day it is taken from.
+// nextDue is the first due date after toDate, or the due date of the occurrence still open.
+function replayInterval(
+  habit: ScheduledHabit,
+  toDate: string
+): { occurrences: IntervalOccurrence[]; nextDue: string } {
+  const stepFrom = (dateString: string): string => stepInterval(habit, dateString);
+  const skipPauses = (dateString: string): string => skipPausedDays(habit, dateString, toDate);
+
+  const events = [...new Set([...habit.completedDates, ...habit.skippedDates])]
+    .filter((date) => date >= habit.startDate && date <= toDate)
+    .sort();
+
+  const occurrences: IntervalOccurrence[] = [];
+  let due = skipPauses(habit.startDate);
+  for (const event of events) {
+    while (!habit.rescheduleIfMissed && due < event) {
+      occurrences.push({ dueDate: due, lastDueDate: due });
+      due = skipPauses(stepFrom(due));
+    }
+    // Done on time, late (rescheduled) or early: the occurrence closes on the day it was done
+    occurrences.push({ dueDate: due < event ? due : event, lastDueDate: event });
+    due = skipPauses(stepFrom(event));
+  }
+
+  if (habit.rescheduleIfMissed) {
+    if (due <= toDate) {
+      occurrences.push({ dueDate: due });
+    }
+  } else {
+    while (due <= toDate) {
+      occurrences.push({ dueDate: due, lastDueDate: due });
+      due = skipPauses(stepFrom(due));
+    }
+  }
+
+  const open = occurrences.find((occurrence) => occurrence.lastDueDate === undefined);
+  return { occurrences, nextDue: open?.dueDate ?? due };
+}
+
+// Replays already made for a loaded habit, so checking it day after day (streaks, day summaries,
+// stats) doesn't replay its whole history for every day. A replay through a later date gives the
+// same occurrences up to any earlier one, so each covers a year past the date it was made for.
+const intervalReplays = new WeakMap<
+  ScheduledHabit,
+  { toDate: string; replay: ReturnType<typeof replayInterval> }
+>();
+
+function getIntervalReplay(habit: ScheduledHabit, dateString: string): ReturnType<typeof replayInterval> {
+  const cached = intervalReplays.get(habit);
+  if (cached && cached.toDate >= dateString) return cached.replay;
+
+  const toDate = addDays(dateString, 366);
+  const replay = replayInterval(habit, toDate);
+  intervalReplays.set(habit, { toDate, replay });
+  return replay;
+}
+
+// Whether the habit is due on `date`. Paused days and days outside its active dates never are.
+// Interval and weekly habits are also due on any day they were done or skipped.
+export function isDueOn(habit: ScheduledHabit, date: Date): boolean {
+  const dateString = formatDateString(date);
+  if (!isActiveOn(habit, dateString) || isHabitPausedOn(habit, dateString)) {
+    return false;
+  }
+
+  switch (habit.scheduleType) {
+    case 'interval':
+      return getIntervalReplay(habit, dateString).occurrences.some(
+        (occurrence) =>
+          occurrence.dueDate <= dateString && (occurrence.lastDueDate ?? dateString) >= dateString
+      );
+    case 'weekly':
+      return (
+        habit.completedDates.includes(dateString) ||
+        habit.skippedDates.includes(dateString) ||
+        getWeeklyCount(habit, date) < (getScheduleOn(habit, dateString).weeklyTarget ?? 1)
+      );
+    default:
+      return matchesCalendar(habit, date);
+  }
+}
+
+// The date an interval habit is next due as of `date`: `date` itself while it is due and not
+// done yet, or an earlier date while a rescheduled occurrence is overdue
+export function getNextDueDate(habit: ScheduledHabit, date: Date): string {
+  const dateString = formatDateString(date);
+  const doneToday = habit.completedDates.includes(dateString) || habit.skippedDates.includes(dateString);
+  return replayInterval(habit, doneToday ? dateString : addDays(dateString, -1)).nextDue;
+}
+
+// Project an interval habit's due dates from `date` through toDate, soonest first, as if each
+// is done on the day it falls due: its next due date (`date` itself while an overdue one is
+// waiting), then a step of the interval in force on each due date, moved past any pause.
+// Like getNextDueDate it leaves out `date` once it is done or skipped.
+export function getUpcomingIntervalDates(
+  habit: ScheduledHabit,
+  date: Date,
+  toDate: string,
+  limit = Infinity
+): string[] {
+  const dateString = formatDateString(date);
+  const lastActiveDate = getLastActiveDate(habit);
+  const lastDate = lastActiveDate && lastActiveDate < toDate ? lastActiveDate : toDate;
+  const nextDue = getNextDueDate(habit, date);
+
+  const dates: string[] = [];
+  let due = skipPausedDays(habit, nextDue < dateString ? dateString : nextDue, lastDate);
+  while (due <= lastDate && dates.length < limit) {
+    dates.push(due);
+    due = skipPausedDays(habit, stepInterval(habit, due), lastDate);
+  }
+  return dates;
+}
+
+// Split a date range wherever the habit's schedule was revised, pairing each part with the
+// schedule in force during it
+function splitByRevision(
+  habit: ScheduledHabit,
+  fromDate: string,
+  toDate: string
+): [string, string, ScheduledHabit][] {
+  const parts: [string, string, ScheduledHabit][] = [];
+  let partFrom = fromDate;
+  for (const revision of habit.revisions) {
+    if (revision.effectiveFrom <= partFrom || revision.effectiveFrom > toDate) continue;
+    parts.push([partFrom, addDays(revision.effectiveFrom, -1), getScheduleOn(habit, partFrom)]);
+    partFrom = revision.effectiveFrom;
+  }
+  parts.push([partFrom, toDate, getScheduleOn(habit, partFrom)]);
+  return parts;
+}
+
+// Weekly quotas count the days the habit was done or skipped, up to the target; whatever is
+// still missing once the week is over is dated the week's last active day. The target in force
+// on that day applies, and a week the habit started partway through only counts what was done.
+function getWeeklyOccurrences(habit: ScheduledHabit, fromDate: string, toDate: string): string[] {
+  const lastActiveDate = getLastActiveDate(habit);
+  const marked = [...habit.completedDates, ...habit.skippedDates].sort();
+  const occurrences: string[] = [];
+
+  const cursor = getWeekStartDate(parseDateString(fromDate));
+  while (formatDateString(cursor) <= toDate) {
+    const [weekStart, weekEnd] = getWeekRange(cursor);
+    const closingDate = lastActiveDate && lastActiveDate < weekEnd ? lastActiveDate : weekEnd;
+    const weeklyTarget = getScheduleOn(habit, closingDate).weeklyTarget ?? 1;
+    const markedInWeek = marked.filter((date) => date >= weekStart && date <= weekEnd);
+    occurrences.push(
+      ...markedInWeek.slice(0, weeklyTarget).filter((date) => date >= fromDate && date <= toDate)
+    );
+
+    const missing = weeklyTarget - markedInWeek.length;
+    if (
+      missing > 0 &&
+      habit.startDate <= weekStart &&
+      closingDate >= fromDate &&
+      closingDate <= toDate &&
+      !isPausedWithin(habit.pauses, habit.id, weekStart, weekEnd)
+    ) {
+      occurrences.push(...Array<string>(missing).fill(closingDate));
+    }
+    cursor.setDate(cursor.getDate() + 7);
+  }
+
+  return occurrences;
+}
+
+// List the habit's occurrences from fromDate to toDate (YYYY-MM-DD, inclusive), oldest first
+// and one entry per occurrence. Skipped occurrences are listed; paused days are not.
+// An interval occurrence is dated the day it was done, skipped or missed, and one still
+// waiting to be done is dated toDate. A weekly habit can list the same day more than once.
+export function occurrencesBetween(habit: ScheduledHabit, fromDate: string, toDate: string): string[] {
+  const lastActiveDate = getLastActiveDate(habit);
+  const from = fromDate > habit.startDate ? fromDate : habit.startDate;
+  const to = lastActiveDate && lastActiveDate < toDate ? lastActiveDate : toDate;
+  if (from > to) return [];
+
+  switch (habit.scheduleType) {
+    case 'interval':
+      return replayInterval(habit, to)
+        .occurrences.map((occurrence) => occurrence.lastDueDate ?? to)
+        .filter((date) => date >= from);
+    case 'weekly':
+      return getWeeklyOccurrences(habit, from, to);
+    case 'rrule':
+      // Expand each rule in force once instead of testing it day by day
+      return splitByRevision(habit, from, to).flatMap(([partFrom, partTo, schedule]) => {
+        if (!schedule.rrule || !schedule.rruleStart) return [];
+        try {
+          return getRRuleOccurrences(
+            parseRRule(schedule.rrule),
+            schedule.rruleStart,
+            parseDateString(partFrom),
+            parseDateString(partTo)
+          ).filter((date) => !isHabitPausedOn(habit, date));
+        } catch {
+          return [];
+        }
+      });
+    default: {
+      const dates: string[] = [];
+      const cursor = parseDateString(from);
+      while (formatDateString(cursor) <= to) {
+        const dateString = formatDateString(cursor);
+        if (matchesCalendar(habit, cursor) && !isHabitPausedOn(habit, dateString)) {
+          dates.push(dateString);
+        }
+        cursor.setDate(cursor.getDate() + 1);
+      }
+      return dates;
+    }
+  }
+}
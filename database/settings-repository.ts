@@ -0,0 +1,33 @@
+import * as SQLite from 'expo-sqlite';
+
+// Known settings and their defaults; values are stored as text
+export const SETTING_DEFAULTS = {
+  allowPastDayEdits: 'true', // Past days on the Today screen can still be checked off
+};
+
+export type SettingKey = keyof typeof SETTING_DEFAULTS;
+
+// Get a setting, falling back to its default when it was never set
+export async function getSetting(
+  db: SQLite.SQLiteDatabase,
+  key: SettingKey
+): Promise<string> {
+  const row = await db.getFirstAsync<{ value: string }>(
+    `SELECT value FROM settings WHERE key = ?`,
+    [key]
+  );
+  return row?.value ?? SETTING_DEFAULTS[key];
+}
+
+// Set a setting, replacing any earlier value
+export async function setSetting(
+  db: SQLite.SQLiteDatabase,
+  key: SettingKey,
+  value: string
+): Promise<void> {
+  await db.runAsync(
+    `INSERT INTO settings (key, value) VALUES (?, ?)
+     ON CONFLICT (key) DO UPDATE SET value = excluded.value`,
+    [key, value]
+  );
+}
@@ -5,7 +5,20 @@ import {
   HabitWithCompletion,
   HabitWithDays,
   IntervalHabit,
+  WeeklyHabit,
   NewHabit,
+  HabitPause,
+  HabitHistoryDay,
+  HabitStreak,
+  HabitStrength,
+  DaySummary,
+  AgendaDay,
+  HabitCompletionRate,
+  HabitCompletionEntry,
+  CompletionNote,
+  JournalEntry,
+  JournalStats,
+  OccurrenceTally,
 } from '@/types/habit';
 import {
   createHabit,
@@ -13,15 +26,45 @@ import {
   getDailyHabits,
   getCustomHabits,
   getIntervalHabits,
+  getWeeklyHabits,
+  getMonthlyHabits,
+  getRRuleHabits,
+  getArchivedHabits,
+  getHabit,
+  getHabitDays,
+  getHabitHistory,
   completeHabit,
   uncompleteHabit,
+  getCompletionEntry,
+  setCompletionNote,
+  searchCompletionNotes,
+  logHabitValue,
+  skipHabit,
+  unskipHabit,
   deleteHabit,
-  getWeekProgress,
-  getStreak,
+  getDaySummaries,
+  getListedHabitsBetween,
+  getCompletionCounts,
+  getHabitCompletionRates,
+  getWeekdayCompletionRates,
+  getUpcomingDueDates,
+  getRecentCompletions,
+  getAgenda,
+  getHabitStreak,
+  getHabitStrength,
   getTotalCompletions,
   getDailyCompletionStreak,
 } from '@/database/habit-repository';
-import { formatDateString } from '@/database/database';
+import { endPause, getPausesForDate } from '@/database/pause-repository';
+import { getSetting, setSetting, SettingKey } from '@/database/settings-repository';
+import {
+  getJournalEntries,
+  getJournalEntry,
+  getJournalStats,
+  saveJournalEntry,
+} from '@/database/journal-repository';
+import { formatDateString, getWeekStartDate, parseDateString } from '@/database/database';
+import { getWeekRange } from '@/database/schedule';
 
 // Hook for Today view - habits for a specific date
 export function useHabitsForDate(date: Date) {
@@ -73,6 +116,62 @@ export function useHabitsForDate(date: Date) {
     [db, habits, date, refresh]
   );
 
+  // Skip a habit for the day, or clear an existing skip
+  const toggleSkip = useCallback(
+    async (habitId: string) => {
+      if (!db) return;
+      const habit = habits.find((h) => h.id === habitId);
+      if (!habit) return;
+
+      if (habit.skipped) {
+        await unskipHabit(db, habitId, date);
+      } else {
+        await skipHabit(db, habitId, date);
+      }
+      await refresh();
+    },
+    [db, habits, date, refresh]
+  );
+
+  // Complete or uncomplete a habit for the day outright. Unlike toggleHabit this doesn't go by the
+  // habits loaded last, which may not show a write still in flight yet (swipes and their undo)
+  const setCompleted = useCallback(
+    async (habitId: string, completed: boolean) => {
+      if (!db) return;
+      if (completed) {
+        await completeHabit(db, habitId, date);
+      } else {
+        await uncompleteHabit(db, habitId, date);
+      }
+      await refresh();
+    },
+    [db, date, refresh]
+  );
+
+  // Skip a habit for the day or clear the skip outright, like setCompleted
+  const setSkipped = useCallback(
+    async (habitId: string, skipped: boolean) => {
+      if (!db) return;
+      if (skipped) {
+        await skipHabit(db, habitId, date);
+      } else {
+        await unskipHabit(db, habitId, date);
+      }
+      await refresh();
+    },
+    [db, date, refresh]
+  );
+
+  // Set the day's logged total for a measurable habit
+  const logValue = useCallback(
+    async (habitId: string, value: number) => {
+      if (!db) return;
+      await logHabitValue(db, habitId, date, value);
+      await refresh();
+    },
+    [db, date, refresh]
+  );
+
   const addHabit = useCallback(
     async (newHabit: NewHabit) => {
       if (!db) return;
@@ -95,6 +194,10 @@ export function useHabitsForDate(date: Date) {
     habits,
     isLoading: dbLoading || isLoading,
     toggleHabit,
+    toggleSkip,
+    setCompleted,
+    setSkipped,
+    logValue,
     addHabit,
     removeHabit,
     refresh,
@@ -252,10 +355,241 @@ export function useIntervalHabits(referenceDate?: Date) {
   };
 }
 
+// Hook for Weekly quota habits management
+export function useWeeklyHabits(referenceDate?: Date) {
+  const { db, isLoading: dbLoading } = useDatabase();
+  const [habits, setHabits] = useState<WeeklyHabit[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const dateString = referenceDate ? formatDateString(referenceDate) : undefined;
+
+  const refresh = useCallback(async () => {
+    if (!db) return;
+    setIsLoading(true);
+    try {
+      const data = await getWeeklyHabits(db, referenceDate);
+      setHabits(data);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [db, dateString]);
+
+  useEffect(() => {
+    if (!dbLoading) {
+      refresh();
+    }
+  }, [dbLoading, refresh]);
+
+  const addHabit = useCallback(
+    async (name: string, weeklyTarget: number) => {
+      if (!db) return;
+      await createHabit(db, { name, scheduleType: 'weekly', weeklyTarget });
+      await refresh();
+    },
+    [db, refresh]
+  );
+
+  const removeHabit = useCallback(
+    async (habitId: string) => {
+      if (!db) return;
+      await deleteHabit(db, habitId);
+      await refresh();
+    },
+    [db, refresh]
+  );
+
+  return {
+    habits,
+    isLoading: dbLoading || isLoading,
+    addHabit,
+    removeHabit,
+    refresh,
+  };
+}
+
+// Hook for Monthly habits management
+export function useMonthlyHabits() {
+  const { db, isLoading: dbLoading } = useDatabase();
+  const [habits, setHabits] = useState<Habit[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!db) return;
+    setIsLoading(true);
+    try {
+      const data = await getMonthlyHabits(db);
+      setHabits(data);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [db]);
+
+  useEffect(() => {
+    if (!dbLoading) {
+      refresh();
+    }
+  }, [dbLoading, refresh]);
+
+  const removeHabit = useCallback(
+    async (habitId: string) => {
+      if (!db) return;
+      await deleteHabit(db, habitId);
+      await refresh();
+    },
+    [db, refresh]
+  );
+
+  return {
+    habits,
+    isLoading: dbLoading || isLoading,
+    removeHabit,
+    refresh,
+  };
+}
+
+// Hook for RRULE habits management
+export function useRRuleHabits() {
+  const { db, isLoading: dbLoading } = useDatabase();
+  const [habits, setHabits] = useState<Habit[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!db) return;
+    setIsLoading(true);
+    try {
+      const data = await getRRuleHabits(db);
+      setHabits(data);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [db]);
+
+  useEffect(() => {
+    if (!dbLoading) {
+      refresh();
+    }
+  }, [dbLoading, refresh]);
+
+  const removeHabit = useCallback(
+    async (habitId: string) => {
+      if (!db) return;
+      await deleteHabit(db, habitId);
+      await refresh();
+    },
+    [db, refresh]
+  );
+
+  return {
+    habits,
+    isLoading: dbLoading || isLoading,
+    removeHabit,
+    refresh,
+  };
+}
+
+// Hook for archived habits
+export function useArchivedHabits() {
+  const { db, isLoading: dbLoading } = useDatabase();
+  const [habits, setHabits] = useState<Habit[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!db) return;
+    setIsLoading(true);
+    try {
+      const data = await getArchivedHabits(db);
+      setHabits(data);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [db]);
+
+  useEffect(() => {
+    if (!dbLoading) {
+      refresh();
+    }
+  }, [dbLoading, refresh]);
+
+  return {
+    habits,
+    isLoading: dbLoading || isLoading,
+    refresh,
+  };
+}
+
+// Hook for vacations and per-habit pauses covering a date
+export function usePausesForDate(date: Date) {
+  const { db, isLoading: dbLoading } = useDatabase();
+  const [pauses, setPauses] = useState<HabitPause[]>([]);
+  const dateString = formatDateString(date);
+
+  const refresh = useCallback(async () => {
+    if (!db) return;
+    const data = await getPausesForDate(db, date);
+    setPauses(data);
+  }, [db, dateString]);
+
+  useEffect(() => {
+    if (!dbLoading) {
+      refresh();
+    }
+  }, [dbLoading, refresh]);
+
+  const resumePause = useCallback(
+    async (pauseId: string) => {
+      if (!db) return;
+      await endPause(db, pauseId, date);
+      await refresh();
+    },
+    [db, dateString, refresh]
+  );
+
+  return {
+    vacation: pauses.find((pause) => pause.habitId === undefined),
+    pausedHabitCount: new Set(pauses.filter((pause) => pause.habitId).map((pause) => pause.habitId)).size,
+    refresh,
+    resumePause,
+  };
+}
+
+// Hook for an on/off setting
+export function useBooleanSetting(key: SettingKey) {
+  const { db, isLoading: dbLoading } = useDatabase();
+  const [value, setValue] = useState<boolean | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!db) return;
+    const data = await getSetting(db, key);
+    setValue(data === 'true');
+  }, [db, key]);
+
+  useEffect(() => {
+    if (!dbLoading) {
+      refresh();
+    }
+  }, [dbLoading, refresh]);
+
+  const update = useCallback(
+    async (nextValue: boolean) => {
+      if (!db) return;
+      setValue(nextValue);
+      await setSetting(db, key, nextValue ? 'true' : 'false');
+    },
+    [db, key]
+  );
+
+  return {
+    value: value ?? false,
+    isLoading: dbLoading || value === null,
+    setValue: update,
+    refresh,
+  };
+}
+
 // Hook for stats
 export function useHabitStats(habitId?: string, date?: Date) {
   const { db, isLoading: dbLoading } = useDatabase();
   const [streak, setStreak] = useState(0);
+  const [bestStreak, setBestStreak] = useState(0);
   const [dailyStreak, setDailyStreak] = useState(0);
   const [totalCompletions, setTotalCompletions] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
@@ -265,8 +599,9 @@ export function useHabitStats(habitId?: string, date?: Date) {
     setIsLoading(true);
     try {
       if (habitId) {
-        const streakValue = await getStreak(db, habitId);
-        setStreak(streakValue);
+        const habitStreak = await getHabitStreak(db, habitId);
+        setStreak(habitStreak.current);
+        setBestStreak(habitStreak.best);
       }
       const statsDate = date ?? new Date();
       const dailyStreakValue = await getDailyCompletionStreak(db, statsDate);
@@ -286,6 +621,7 @@ export function useHabitStats(habitId?: string, date?: Date) {
 
   return {
     streak,
+    bestStreak,
     dailyStreak,
     totalCompletions,
     isLoading: dbLoading || isLoading,
@@ -293,22 +629,471 @@ export function useHabitStats(habitId?: string, date?: Date) {
   };
 }
 
-// Hook for week progress
-export function useWeekProgress(habitId: string, weekStartDate: Date) {
+// Hook for a habit's strength score and how it developed week by week
+export function useHabitStrength(habitId: string) {
+  const { db, isLoading: dbLoading } = useDatabase();
+  const [strength, setStrength] = useState<HabitStrength>({ score: 0, history: [] });
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!db) return;
+    setIsLoading(true);
+    try {
+      const data = await getHabitStrength(db, habitId);
+      setStrength(data);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [db, habitId]);
+
+  useEffect(() => {
+    if (!dbLoading) {
+      refresh();
+    }
+  }, [dbLoading, refresh]);
+
+  return {
+    score: strength.score,
+    history: strength.history,
+    isLoading: dbLoading || isLoading,
+    refresh,
+  };
+}
+
+// Hook for a habit's detail screen: the habit with its days, its 30-day completion rate,
+// recent completions and next due dates
+export function useHabitDetails(habitId: string) {
+  const { db, isLoading: dbLoading } = useDatabase();
+  const [habit, setHabit] = useState<HabitWithDays | null>(null);
+  const [completionRate, setCompletionRate] = useState<HabitCompletionRate | null>(null);
+  const [recentCompletions, setRecentCompletions] = useState<HabitCompletionEntry[]>([]);
+  const [upcomingDates, setUpcomingDates] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!db) return;
+    setIsLoading(true);
+    try {
+      const data = await getHabit(db, habitId);
+      setHabit(data ? { ...data, days: await getHabitDays(db, habitId) } : null);
+      const [rate] = await getHabitCompletionRates(db, 30, habitId);
+      setCompletionRate(rate ?? null);
+      setRecentCompletions(await getRecentCompletions(db, habitId, 10));
+      setUpcomingDates(await getUpcomingDueDates(db, habitId, 5));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [db, habitId]);
+
+  useEffect(() => {
+    if (!dbLoading) {
+      refresh();
+    }
+  }, [dbLoading, refresh]);
+
+  return {
+    habit,
+    completionRate,
+    recentCompletions,
+    upcomingDates,
+    isLoading: dbLoading || isLoading,
+    refresh,
+  };
+}
+
+// Hook for a habit's history calendar: the state of each day in the month containing `month`
+export function useHabitHistory(habitId: string, month: Date) {
+  const { db, isLoading: dbLoading } = useDatabase();
+  const [habit, setHabit] = useState<Habit | null>(null);
+  const [days, setDays] = useState<HabitHistoryDay[]>([]);
+  const [streak, setStreak] = useState<HabitStreak>({ current: 0, best: 0 });
+  const [isLoading, setIsLoading] = useState(true);
+  const monthStart = formatDateString(new Date(month.getFullYear(), month.getMonth(), 1));
+  const monthEnd = formatDateString(new Date(month.getFullYear(), month.getMonth() + 1, 0));
+
+  const refresh = useCallback(async () => {
+    if (!db) return;
+    setIsLoading(true);
+    try {
+      setHabit(await getHabit(db, habitId));
+      setDays(await getHabitHistory(db, habitId, monthStart, monthEnd));
+      setStreak(await getHabitStreak(db, habitId));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [db, habitId, monthStart, monthEnd]);
+
+  useEffect(() => {
+    if (!dbLoading) {
+      refresh();
+    }
+  }, [dbLoading, refresh]);
+
+  // Add or remove the completion on a day; streaks and interval schedules are worked out
+  // from the completion history, so they follow on the next read
+  const toggleDay = useCallback(
+    async (dateString: string) => {
+      if (!db) return;
+      const day = days.find((d) => d.date === dateString);
+      if (day?.state === 'completed') {
+        await uncompleteHabit(db, habitId, parseDateString(dateString));
+      } else {
+        await completeHabit(db, habitId, parseDateString(dateString));
+      }
+      await refresh();
+    },
+    [db, habitId, days, refresh]
+  );
+
+  return {
+    habit,
+    days,
+    streak: streak.current,
+    bestStreak: streak.best,
+    isLoading: dbLoading || isLoading,
+    refresh,
+    toggleDay,
+  };
+}
+
+// Hook for the calendar: how each day of the month containing `month` went
+export function useMonthSummary(month: Date) {
+  const { db, isLoading: dbLoading } = useDatabase();
+  const [days, setDays] = useState<DaySummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const monthStart = formatDateString(new Date(month.getFullYear(), month.getMonth(), 1));
+  const monthEnd = formatDateString(new Date(month.getFullYear(), month.getMonth() + 1, 0));
+
+  const refresh = useCallback(async () => {
+    if (!db) return;
+    setIsLoading(true);
+    try {
+      const data = await getDaySummaries(db, monthStart, monthEnd);
+      setDays(data);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [db, monthStart, monthEnd]);
+
+  useEffect(() => {
+    if (!dbLoading) {
+      refresh();
+    }
+  }, [dbLoading, refresh]);
+
+  return {
+    days,
+    isLoading: dbLoading || isLoading,
+    refresh,
+  };
+}
+
+// Weeks shown in the heatmap: the current one and the 52 before it
+const HEATMAP_WEEKS = 53;
+
+// Hook for the heatmap: completions per day over the last HEATMAP_WEEKS weeks, for every habit
+// or just one
+export function useCompletionHeatmap(habitId?: string) {
+  const { db, isLoading: dbLoading } = useDatabase();
+  const [counts, setCounts] = useState<Map<string, number>>(new Map());
+  const [isLoading, setIsLoading] = useState(true);
+  const firstWeekStart = getWeekStartDate(new Date());
+  firstWeekStart.setDate(firstWeekStart.getDate() - (HEATMAP_WEEKS - 1) * 7);
+  const fromDate = formatDateString(firstWeekStart);
+  const toDate = formatDateString(new Date());
+
+  const refresh = useCallback(async () => {
+    if (!db) return;
+    setIsLoading(true);
+    try {
+      const data = await getCompletionCounts(db, fromDate, toDate, habitId);
+      setCounts(data);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [db, fromDate, toDate, habitId]);
+
+  useEffect(() => {
+    if (!dbLoading) {
+      refresh();
+    }
+  }, [dbLoading, refresh]);
+
+  return {
+    counts,
+    fromDate,
+    toDate,
+    isLoading: dbLoading || isLoading,
+    refresh,
+  };
+}
+
+// Hook for the statistics screen: per-habit and per-weekday completion over the last `days` days
+export function useCompletionStats(days: number) {
+  const { db, isLoading: dbLoading } = useDatabase();
+  const [habitRates, setHabitRates] = useState<HabitCompletionRate[]>([]);
+  const [weekdayRates, setWeekdayRates] = useState<OccurrenceTally[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!db) return;
+    setIsLoading(true);
+    try {
+      setHabitRates(await getHabitCompletionRates(db, days));
+      setWeekdayRates(await getWeekdayCompletionRates(db, days));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [db, days]);
+
+  useEffect(() => {
+    if (!dbLoading) {
+      refresh();
+    }
+  }, [dbLoading, refresh]);
+
+  return {
+    habitRates,
+    weekdayRates,
+    isLoading: dbLoading || isLoading,
+    refresh,
+  };
+}
+
+// Hook for the agenda: the habits expected on each of the next `days` days, today first
+export function useAgenda(days: number) {
+  const { db, isLoading: dbLoading } = useDatabase();
+  const [agenda, setAgenda] = useState<AgendaDay[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!db) return;
+    setIsLoading(true);
+    try {
+      const data = await getAgenda(db, days);
+      setAgenda(data);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [db, days]);
+
+  useEffect(() => {
+    if (!dbLoading) {
+      refresh();
+    }
+  }, [dbLoading, refresh]);
+
+  return {
+    agenda,
+    isLoading: dbLoading || isLoading,
+    refresh,
+  };
+}
+
+// Hook for the note sheet: a habit's completion entry on `date`, and saving its note.
+// Saving a note for a habit that wasn't done yet completes it first.
+export function useCompletionNote(habitId: string, date: Date) {
+  const { db, isLoading: dbLoading } = useDatabase();
+  const [habit, setHabit] = useState<Habit | null>(null);
+  const [entry, setEntry] = useState<HabitCompletionEntry | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const dateString = formatDateString(date);
+
+  const refresh = useCallback(async () => {
+    if (!db) return;
+    setIsLoading(true);
+    try {
+      setHabit(await getHabit(db, habitId));
+      setEntry(await getCompletionEntry(db, habitId, parseDateString(dateString)));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [db, habitId, dateString]);
+
+  useEffect(() => {
+    if (!dbLoading) {
+      refresh();
+    }
+  }, [dbLoading, refresh]);
+
+  const saveNote = useCallback(
+    async (note: string) => {
+      if (!db) return;
+      const noteDate = parseDateString(dateString);
+      if (!entry) {
+        await completeHabit(db, habitId, noteDate);
+      }
+      await setCompletionNote(db, habitId, noteDate, note);
+      await refresh();
+    },
+    [db, habitId, dateString, entry, refresh]
+  );
+
+  return {
+    habit,
+    entry,
+    isLoading: dbLoading || isLoading,
+    saveNote,
+    refresh,
+  };
+}
+
+// Hook for searching completion notes; an empty query finds nothing
+export function useNoteSearch(query: string) {
+  const { db, isLoading: dbLoading } = useDatabase();
+  const [results, setResults] = useState<CompletionNote[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!db) return;
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      const data = await searchCompletionNotes(db, query, 100);
+      setResults(data);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [db, query]);
+
+  useEffect(() => {
+    if (!dbLoading) {
+      refresh();
+    }
+  }, [dbLoading, refresh]);
+
+  return {
+    results,
+    isLoading: dbLoading || isLoading,
+    refresh,
+  };
+}
+
+// Hook for the planner: the habits listed on each day of the Monday-Sunday week containing `date`
+export function usePlannerWeek(date: Date) {
+  const { db, isLoading: dbLoading } = useDatabase();
+  const [days, setDays] = useState<AgendaDay[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [weekStart, weekEnd] = getWeekRange(date);
+
+  const refresh = useCallback(async () => {
+    if (!db) return;
+    setIsLoading(true);
+    try {
+      const data = await getListedHabitsBetween(db, weekStart, weekEnd);
+      setDays(data);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [db, weekStart, weekEnd]);
+
+  useEffect(() => {
+    if (!dbLoading) {
+      refresh();
+    }
+  }, [dbLoading, refresh]);
+
+  return {
+    weekStart,
+    weekEnd,
+    days,
+    isLoading: dbLoading || isLoading,
+    refresh,
+  };
+}
+
+// Hook for the journal card and sheet: the entry for `date`, and saving it
+export function useJournalEntry(date: Date) {
+  const { db, isLoading: dbLoading } = useDatabase();
+  const [entry, setEntry] = useState<JournalEntry | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const dateString = formatDateString(date);
+
+  const refresh = useCallback(async () => {
+    if (!db) return;
+    setIsLoading(true);
+    try {
+      const data = await getJournalEntry(db, dateString);
+      setEntry(data);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [db, dateString]);
+
+  useEffect(() => {
+    if (!dbLoading) {
+      refresh();
+    }
+  }, [dbLoading, refresh]);
+
+  const save = useCallback(
+    async (changes: Omit<JournalEntry, 'date'>) => {
+      if (!db) return;
+      await saveJournalEntry(db, { date: dateString, ...changes });
+      await refresh();
+    },
+    [db, dateString, refresh]
+  );
+
+  return {
+    entry,
+    isLoading: dbLoading || isLoading,
+    save,
+    refresh,
+  };
+}
+
+// Hook for the calendar: the journal entries in the month containing `month`
+export function useMonthJournal(month: Date) {
+  const { db, isLoading: dbLoading } = useDatabase();
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const monthStart = formatDateString(new Date(month.getFullYear(), month.getMonth(), 1));
+  const monthEnd = formatDateString(new Date(month.getFullYear(), month.getMonth() + 1, 0));
+
+  const refresh = useCallback(async () => {
+    if (!db) return;
+    setIsLoading(true);
+    try {
+      const data = await getJournalEntries(db, monthStart, monthEnd);
+      setEntries(data);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [db, monthStart, monthEnd]);
+
+  useEffect(() => {
+    if (!dbLoading) {
+      refresh();
+    }
+  }, [dbLoading, refresh]);
+
+  return {
+    entries,
+    isLoading: dbLoading || isLoading,
+    refresh,
+  };
+}
+
+// Hook for the statistics screen: journal ratings on perfect days against the other days
+export function useJournalStats(days: number) {
   const { db, isLoading: dbLoading } = useDatabase();
-  const [progress, setProgress] = useState<boolean[]>([false, false, false, false, false, false, false]);
+  const [stats, setStats] = useState<JournalStats | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   const refresh = useCallback(async () => {
     if (!db) return;
     setIsLoading(true);
     try {
-      const data = await getWeekProgress(db, habitId, weekStartDate);
-      setProgress(data);
+      const data = await getJournalStats(db, days);
+      setStats(data);
     } finally {
       setIsLoading(false);
     }
-  }, [db, habitId, formatDateString(weekStartDate)]);
+  }, [db, days]);
 
   useEffect(() => {
     if (!dbLoading) {
@@ -317,7 +1102,7 @@ export function useWeekProgress(habitId: string, weekStartDate: Date) {
   }, [dbLoading, refresh]);
 
   return {
-    progress,
+    stats,
     isLoading: dbLoading || isLoading,
     refresh,
   };
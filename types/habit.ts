@@ -1,21 +1,39 @@
 // Schedule types for habits
-export type HabitScheduleType = 'daily' | 'custom' | 'interval';
+export type HabitScheduleType = 'daily' | 'custom' | 'interval' | 'weekly' | 'monthly' | 'rrule';
+
+// Boolean habits are simply done or not; measurable habits log an amount towards a daily target
+export type HabitKind = 'boolean' | 'measurable';
 
 // Base habit interface
 export interface Habit {
   id: string;
   name: string;
   scheduleType: HabitScheduleType;
+  kind: HabitKind;
+  targetValue?: number; // Only for measurable habits, e.g. 8
+  unit?: string; // Only for measurable habits, e.g. "glasses"
   intervalDays?: number; // Only for interval habits
+  weeklyTarget?: number; // Only for weekly habits: times per week
+  monthDay?: number; // Only for monthly habits: 1-31, clamped to the month's last day
+  monthWeek?: number; // Only for monthly habits: 1-4 for the nth weekday, -1 for the last one
+  monthWeekday?: number; // Only for monthly habits: 0=Sunday ... 6=Saturday, used with monthWeek
+  rrule?: string; // Only for rrule habits: RFC 5545 rule, e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH"
+  rruleStart?: string; // Only for rrule habits: YYYY-MM-DD the rule is anchored at (DTSTART)
   oneTimeDate?: string; // YYYY-MM-DD for today-only habits
+  archivedDate?: string; // YYYY-MM-DD the habit was archived; absent for active habits
+  startDate: string; // YYYY-MM-DD first day the habit is due
+  endDate?: string; // YYYY-MM-DD last day the habit is due; absent for open-ended habits
   createdAt: string;
   updatedAt: string;
 }
 
 // Habit with completion status for a specific date
 export interface HabitWithCompletion extends Habit {
-  completed: boolean;
-  weekProgress?: boolean[]; // 7 booleans for week view
+  completed: boolean; // For measurable habits: the day's total reached the target
+  value?: number; // Amount logged on this date (measurable habits only)
+  skipped: boolean; // Deliberately skipped on this date: counts as neither done nor missed
+  note?: string; // Note on this date's completion
+  weekProgress?: HabitDayState[]; // Monday-Sunday states for the week containing this date
 }
 
 // Habit with associated days (for custom habits)
@@ -31,10 +49,163 @@ export interface IntervalHabit extends Habit {
   rescheduleIfMissed: boolean; // If true, overdue habits still appear
 }
 
+// Weekly quota habit with progress for the week being viewed
+export interface WeeklyHabit extends Habit {
+  weeklyTarget: number;
+  completedThisWeek: number;
+  skippedThisWeek: number; // Each skip excuses one occurrence of the weekly target
+}
+
+// A habit's schedule as it was from effectiveFrom until the next revision
+export interface ScheduleRevision {
+  habitId: string;
+  effectiveFrom: string; // YYYY-MM-DD
+  days: number[]; // Only for custom habits
+  intervalDays?: number;
+  weeklyTarget?: number;
+  monthDay?: number;
+  monthWeek?: number;
+  monthWeekday?: number;
+  rrule?: string;
+  rruleStart?: string;
+  kind: HabitKind; // What counted as done while this revision was in force
+  targetValue?: number;
+}
+
+// Habit with everything its schedule depends on, so due dates can be worked out without the database
+export interface ScheduledHabit extends Habit {
+  days: number[]; // Only for custom habits: days of week (0=Sunday, 1=Monday, etc.)
+  rescheduleIfMissed: boolean; // Only for interval habits: an overdue occurrence stays due until done
+  completedDates: string[]; // YYYY-MM-DD dates the habit was done, ascending
+  skippedDates: string[]; // YYYY-MM-DD dates the habit was skipped, ascending
+  pauses: HabitPause[]; // Pauses that may cover this habit, global ones included
+  revisions: ScheduleRevision[]; // Oldest first; the habit's own fields hold the latest schedule
+}
+
+// Consecutive scheduled occurrences completed: the run still going and the longest one ever
+export interface HabitStreak {
+  current: number;
+  best: number;
+}
+
+// A habit's strength score (0-1) as it stood on a date
+export interface HabitStrengthPoint {
+  date: string; // YYYY-MM-DD
+  score: number;
+}
+
+// How well a habit has stuck, weighting recent occurrences most: the score now and its history
+export interface HabitStrength {
+  score: number; // 0-1
+  history: HabitStrengthPoint[]; // Oldest first
+}
+
+// A habit's state on one day of its history
+export type HabitDayState =
+  | 'completed'
+  | 'skipped'
+  | 'missed' // Due on a past day and not done
+  | 'due' // Due today or later and not done yet
+  | 'paused'
+  | 'none'; // Not scheduled, or outside the habit's active dates
+
+export interface HabitHistoryDay {
+  date: string; // YYYY-MM-DD
+  state: HabitDayState;
+  value?: number; // Amount logged on this date (measurable habits only)
+  note?: string;
+}
+
+// One day a habit was done
+export interface HabitCompletionEntry {
+  date: string; // YYYY-MM-DD
+  value?: number; // Amount logged (measurable habits only)
+  note?: string;
+}
+
+// A completion note found by a search, with the habit it belongs to
+export interface CompletionNote {
+  habitId: string;
+  habitName: string;
+  date: string; // YYYY-MM-DD
+  note: string;
+}
+
+// How a whole day went, counted like the Today view: skipped habits are left out of both numbers
+export interface DaySummary {
+  date: string; // YYYY-MM-DD
+  total: number; // Habits on the day's list
+  completed: number;
+}
+
+// Scheduled occurrences over a span of days and how many of them were done. Skipped occurrences
+// and ones still open today are left out of both numbers.
+export interface OccurrenceTally {
+  scheduled: number;
+  completed: number;
+}
+
+// A habit's completion over a span of days and over the span of the same length before it
+export interface HabitCompletionRate {
+  habitId: string;
+  name: string;
+  current: OccurrenceTally;
+  previous: OccurrenceTally;
+}
+
+// A habit expected on a day of the agenda
+export interface AgendaItem {
+  habitId: string;
+  name: string;
+  scheduleType: HabitScheduleType;
+  done: boolean; // Already completed on this date
+}
+
+// One day of the agenda with every habit expected on it
+export interface AgendaDay {
+  date: string; // YYYY-MM-DD
+  items: AgendaItem[];
+}
+
+// A day's journal entry: how the day felt, apart from any single habit
+export interface JournalEntry {
+  date: string; // YYYY-MM-DD
+  mood?: number; // 1 (low) to 5 (great)
+  energy?: number; // 1 (drained) to 5 (energized)
+  text?: string;
+}
+
+// Average mood and energy over the journaled days in a group; absent when none of them rated it
+export interface JournalAverages {
+  days: number; // Journaled days in the group
+  mood?: number;
+  energy?: number;
+}
+
+// Journal ratings split by how the day's habits went
+export interface JournalStats {
+  perfectDays: JournalAverages; // Every habit on the day's list was done
+  otherDays: JournalAverages; // Something on the list was left undone
+}
+
+// A vacation or pause period; habits are not due and streaks are frozen while paused
+export interface HabitPause {
+  id: string;
+  habitId?: string; // Absent for a global pause (vacation) covering every habit
+  startDate: string; // YYYY-MM-DD, inclusive
+  endDate?: string; // YYYY-MM-DD, inclusive; absent while paused until resumed
+  createdAt: string;
+}
+
 // Input types for creating new habits
 export interface NewHabitBase {
   name: string;
   oneTimeDate?: string; // YYYY-MM-DD for today-only habits
+  startDate?: string; // YYYY-MM-DD, defaults to today (interval habits are first due on this day)
+  endDate?: string; // YYYY-MM-DD, omit for no end date
+  kind?: HabitKind; // Defaults to 'boolean'
+  targetValue?: number; // Required when kind is 'measurable'
+  unit?: string;
 }
 
 export interface NewDailyHabit extends NewHabitBase {
@@ -49,19 +220,55 @@ export interface NewCustomHabit extends NewHabitBase {
 export interface NewIntervalHabit extends NewHabitBase {
   scheduleType: 'interval';
   intervalDays: number;
-  startDate?: string; // ISO date string, defaults to today
   rescheduleIfMissed?: boolean; // If true, overdue habits still appear (default: false)
 }
 
-export type NewHabit = NewDailyHabit | NewCustomHabit | NewIntervalHabit;
+export interface NewWeeklyHabit extends NewHabitBase {
+  scheduleType: 'weekly';
+  weeklyTarget: number; // Times per week, on any days
+}
+
+// Monthly habits set either monthDay ("the 1st") or monthWeek + monthWeekday ("the last Saturday")
+export interface NewMonthlyHabit extends NewHabitBase {
+  scheduleType: 'monthly';
+  monthDay?: number;
+  monthWeek?: number;
+  monthWeekday?: number;
+}
+
+export interface NewRRuleHabit extends NewHabitBase {
+  scheduleType: 'rrule';
+  rrule: string;
+  rruleStart?: string; // YYYY-MM-DD, defaults to today
+}
+
+export type NewHabit =
+  | NewDailyHabit
+  | NewCustomHabit
+  | NewIntervalHabit
+  | NewWeeklyHabit
+  | NewMonthlyHabit
+  | NewRRuleHabit;
 
 // Database row types (for mapping from SQLite)
 export interface HabitRow {
   id: string;
   name: string;
   schedule_type: string;
+  kind?: string;
+  target_value?: number | null;
+  unit?: string | null;
   interval_days: number | null;
+  weekly_target?: number | null;
+  month_day?: number | null;
+  month_week?: number | null;
+  month_weekday?: number | null;
+  rrule?: string | null;
+  rrule_start?: string | null;
   one_time_date?: string | null;
+  archived_date?: string | null;
+  start_date?: string | null;
+  end_date?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -70,6 +277,8 @@ export interface HabitCompletionRow {
   id: number;
   habit_id: string;
   completed_date: string;
+  value: number | null; // Logged amount for measurable habits, null for boolean ones
+  note: string | null;
 }
 
 export interface HabitDayRow {
@@ -78,6 +287,38 @@ export interface HabitDayRow {
   day_of_week: number;
 }
 
+export interface HabitPauseRow {
+  id: string;
+  habit_id: string | null;
+  start_date: string;
+  end_date: string | null;
+  created_at: string;
+}
+
+export interface ScheduleRevisionRow {
+  id: number;
+  habit_id: string;
+  effective_from: string;
+  days: string | null; // Comma-separated days of week, e.g. "1,3,5"
+  interval_days: number | null;
+  weekly_target: number | null;
+  month_day: number | null;
+  month_week: number | null;
+  month_weekday: number | null;
+  rrule: string | null;
+  rrule_start: string | null;
+  kind: string | null;
+  target_value: number | null;
+}
+
+export interface JournalEntryRow {
+  entry_date: string;
+  mood: number | null;
+  energy: number | null;
+  text: string | null;
+  updated_at: string;
+}
+
 export interface IntervalHabitStateRow {
   habit_id: string;
   last_completed: string | null;